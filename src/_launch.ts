@@ -1,7 +1,13 @@
 // Forked from @froundryvtt/cli
 
+import * as fse from "fs-extra"
 import { spawn } from "node:child_process"
+import type { ChildProcess } from "node:child_process"
+import { connect, createServer } from "node:net"
+import os from "node:os"
 import path from "node:path"
+import { PassThrough } from "node:stream"
+import type { FoundryServer } from "./utils"
 
 /**
  *
@@ -14,6 +20,8 @@ import path from "node:path"
  * @param options.noupnp Disable UPnP port forwarding.
  * @param options.noupdate Disable automatic update checking.
  * @param options.adminKey The admin key to secure Foundry VTT's Setup screen with.
+ * @param options.cleanup A function called once the server exits for good, i.e. not when restarting.
+ * @returns The handle of the server process.
  */
 export function launchFoundryPrivate(
   mainJsPath: string,
@@ -25,6 +33,7 @@ export function launchFoundryPrivate(
     noupnp,
     noupdate,
     adminKey,
+    cleanup,
   }: {
     world?: string
     port: number
@@ -32,21 +41,193 @@ export function launchFoundryPrivate(
     noupnp?: boolean
     noupdate?: boolean
     adminKey?: string
+    cleanup?: () => void
   } = { port: 30000 },
-) {
-  // Launch Foundry VTT
-  const foundry = spawn("node", [
-    mainJsPath,
-    `--dataPath=${dataPath}`,
-    `--port=${port}`,
-    demo ? "--demo" : "",
-    world ? `--world=${world}` : "",
-    noupnp ? "--noupnp" : "",
-    noupdate ? "--noupdate" : "",
-    adminKey ? `--adminKey=${adminKey}` : "",
-  ])
-
-  foundry.stdout.on("data", (data) => console.log(data.toString()))
-  foundry.stderr.on("data", (data) => console.error(data.toString()))
-  foundry.on("close", (code) => console.log(`Foundry VTT exited with code ${code}`))
+): FoundryServer {
+  return new FoundryServerProcess(
+    [
+      mainJsPath,
+      `--dataPath=${dataPath}`,
+      `--port=${port}`,
+      demo ? "--demo" : "",
+      world ? `--world=${world}` : "",
+      noupnp ? "--noupnp" : "",
+      noupdate ? "--noupdate" : "",
+      adminKey ? `--adminKey=${adminKey}` : "",
+    ].filter(Boolean),
+    port,
+    cleanup,
+  )
+}
+
+/** A Foundry VTT server running in a child process, which can be stopped and restarted. */
+class FoundryServerProcess implements FoundryServer {
+  readonly log = new PassThrough()
+  process!: ChildProcess
+  ready!: Promise<void>
+  exited!: Promise<number | null>
+  private restarting = false
+
+  constructor(
+    private readonly args: string[],
+    readonly port: number,
+    private readonly cleanup?: () => void,
+  ) {
+    this.start()
+  }
+
+  get exitCode(): number | null {
+    return this.process.exitCode
+  }
+
+  async stop(timeout = 10000): Promise<number | null> {
+    if (this.process.exitCode !== null || this.process.signalCode !== null) return this.exited
+    this.process.kill("SIGTERM")
+    // Kill the server if it does not shut down gracefully in time.
+    const timer = setTimeout(() => this.process.kill("SIGKILL"), timeout)
+    try {
+      return await this.exited
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
+  async restart(): Promise<void> {
+    this.restarting = true
+    try {
+      await this.stop()
+    } finally {
+      this.restarting = false
+    }
+    await assertPortAvailable(this.port)
+    this.start()
+    return this.ready
+  }
+
+  /** Spawn the server process. */
+  private start(): void {
+    const foundry = spawn("node", this.args)
+    this.process = foundry
+
+    const forward = (data: Buffer, print: (message: string) => void) => {
+      print(data.toString())
+      // Only feed the log stream once it is consumed, so that an unread stream does not buffer the whole log.
+      if (this.log.readableFlowing !== null) this.log.write(data)
+    }
+    foundry.stdout.on("data", (data) => forward(data, console.log))
+    foundry.stderr.on("data", (data) => forward(data, console.error))
+
+    this.exited = new Promise((resolve) => {
+      foundry.on("close", (code) => {
+        console.log(`Foundry VTT exited with code ${code}`)
+        if (!this.restarting) this.cleanup?.()
+        resolve(code)
+      })
+    })
+    this.ready = waitForPort(this.port, this.exited)
+    // Avoid unhandled rejections when the caller does not wait for the server to be ready.
+    this.ready.catch(() => undefined)
+  }
+}
+
+/**
+ * Check that nothing listens on a local port yet, since a server listening on it would be mistaken for Foundry VTT.
+ * @param port The port.
+ * @throws {Error} If the port is already in use.
+ */
+export async function assertPortAvailable(port: number): Promise<void> {
+  await new Promise<void>((resolve, reject) => {
+    const server = createServer()
+    server.once("error", (err: NodeJS.ErrnoException) => {
+      if (err.code === "EADDRINUSE") reject(new Error(`The port ${port} is already in use, is Foundry VTT running?`))
+      else reject(err)
+    })
+    server.listen(port, () => server.close(() => resolve()))
+  })
+}
+
+/**
+ * Wait for a server to listen on a local port.
+ * @param port   The port.
+ * @param exited A promise resolved when the server process exits.
+ * @param [interval] The delay in milliseconds between two connection attempts.
+ * @throws {Error} If the server process exits before listening.
+ */
+async function waitForPort(port: number, exited: Promise<number | null>, interval = 250): Promise<void> {
+  let hasExited = false
+  let exitCode: number | null = null
+  exited.then((code) => {
+    hasExited = true
+    exitCode = code
+  })
+  while (!hasExited) {
+    const listening = await new Promise<boolean>((resolve) => {
+      const socket = connect({ port, host: "localhost" })
+      socket.once("connect", () => {
+        socket.end()
+        resolve(true)
+      })
+      socket.once("error", () => resolve(false))
+    }).then((listening) => listening && !hasExited)
+    if (listening) return
+    await new Promise((resolve) => setTimeout(resolve, interval))
+  }
+  throw new Error(`Foundry VTT exited with code ${exitCode} before listening on port ${port}.`)
+}
+
+/**
+ * Create a throwaway Foundry VTT data path in the temporary directory of the OS, containing the package being
+ * developed and optionally a world.
+ * @param packageSource The directory of the package files to install.
+ * @param packagePath   The path of the package inside the Data directory, e.g. "modules/my-module/".
+ * @param [options]
+ * @param options.copy   Whether to copy the package files, otherwise they are symlinked.
+ * @param options.world  The world to seed.
+ * @param options.systemSource The directory of the installed system of the world, symlinked so that the world can
+ *                             be launched, unless the package being developed is the system itself.
+ * @returns The data path, along with a function removing it.
+ */
+export function createTemporaryDataPath(
+  packageSource: string,
+  packagePath: string,
+  {
+    copy = false,
+    world,
+    systemSource,
+  }: { copy?: boolean; world?: { id: string; title: string; system: string }; systemSource?: string } = {},
+): { dataPath: string; cleanup: () => void } {
+  const dataPath = fse.mkdtempSync(path.join(os.tmpdir(), "fvtt-data-"))
+  const cleanup = () => {
+    process.off("exit", cleanup)
+    // Symlinks are removed without following them, the package files are left untouched.
+    fse.rmSync(dataPath, { force: true, recursive: true, maxRetries: 10 })
+  }
+  // Remove the data path even if the server is never stopped explicitly.
+  process.on("exit", cleanup)
+
+  try {
+    for (const dirname of ["Config", "Data", "Logs"]) fse.mkdirSync(path.join(dataPath, dirname))
+    const target = path.resolve(dataPath, "Data", packagePath)
+    if (copy) {
+      fse.copySync(packageSource, target, {
+        filter: (file) => ![".git", "node_modules"].includes(path.basename(file)),
+      })
+    } else {
+      fse.ensureSymlinkSync(path.resolve(packageSource), target, "junction")
+    }
+    if (world && systemSource) {
+      fse.ensureSymlinkSync(
+        path.resolve(systemSource),
+        path.join(dataPath, "Data", "systems", world.system),
+        "junction",
+      )
+    }
+    if (world) {
+      fse.outputJSONSync(path.join(dataPath, "Data", "worlds", world.id, "world.json"), world, { spaces: 2 })
+    }
+  } catch (err) {
+    cleanup()
+    throw err
+  }
+  return { dataPath, cleanup }
 }
@@ -1,49 +1,138 @@
 import * as fse from "fs-extra"
+import * as YAML from "js-yaml"
+import os from "node:os"
 import path from "node:path"
 import { platform } from "node:process"
+import type { FoundryConfig, FoundryPathStatus } from "./utils"
 
 /**
- * Get the full path to `foundry.{json|yaml|yml}` or `foundry.<OS>.{json|yaml|yml}` depending on operating system.
- * @param rootPath The directory path containing the Foundry VTT config file.
- * @returns The directory path to the Foundry VTT config file.
+ * Get the full paths to the layers of the Foundry VTT config, in order of precedence: the shared
+ * `foundryconfig.{json|yaml|yml}`, the OS-specific `foundryconfig.<OS>.{json|yaml|yml}`, then the git-ignored
+ * `foundryconfig.local.{json|yaml|yml}`. Each layer is optional.
+ * @param rootPath The directory path containing the Foundry VTT config files.
+ * @returns The file paths to the Foundry VTT config layers found.
  */
-export async function getFoundryConfigPath(rootPath = "."): Promise<string> {
-  const searchPaths = getSearchPaths()
-  for (const searchPath of searchPaths) {
-    if (await fse.exists(searchPath)) {
-      return searchPath
+export async function getFoundryConfigPaths(rootPath = "."): Promise<string[]> {
+  const osName = (() => {
+    switch (platform) {
+      case "darwin":
+        return "macosx"
+      case "linux":
+        return "linux"
+      case "win32":
+        return "windows"
+      default:
+        return undefined
     }
+  })()
+  const layers = ["foundryconfig", osName && `foundryconfig.${osName}`, "foundryconfig.local"].filter(Boolean)
+
+  const configPaths: string[] = []
+  for (const layer of layers) {
+    for (const ext of [".yml", ".yaml", ".json"]) {
+      const searchPath = path.join(rootPath, `${layer}${ext}`)
+      if (await fse.exists(searchPath)) {
+        configPaths.push(searchPath)
+        break
+      }
+    }
+  }
+  return configPaths
+}
+
+/**
+ * Read the layered Foundry VTT config: the config files found by `getFoundryConfigPaths`, then the `FOUNDRY_*`
+ * environment variables. Objects are merged, other values are replaced by the upper layers.
+ * @param rootPath The directory path containing the Foundry VTT config files.
+ * @returns The merged config, along with the config files and environment variables it was read from.
+ * @throws {Error} If no layer is found, or if the merged config does not match the schema.
+ */
+export async function readFoundryConfig(rootPath = "."): Promise<{ config: FoundryConfig; sources: string[] }> {
+  const configPaths = await getFoundryConfigPaths(rootPath)
+  const layers: [string, Record<string, unknown>][] = []
+  for (const configPath of configPaths) {
+    const data = await fse.readFile(configPath, "utf-8")
+    const layer = path.extname(configPath) === ".json" ? JSON.parse(data) : YAML.load(data, { json: true })
+    layers.push([configPath, layer ?? {}])
+  }
+  const envLayer = Object.fromEntries(
+    Object.entries(FOUNDRY_CONFIG_ENV)
+      .filter(([, name]) => process.env[name] !== undefined)
+      .map(([key, name]) => [key, parseEnvValue(key as keyof FoundryConfig, process.env[name] as string)]),
+  )
+  if (Object.keys(envLayer).length > 0) layers.push(["environment", envLayer])
+  if (layers.length === 0) {
+    throw new Error(
+      "No Foundry VTT config file found.\nSearch for:\n  - " +
+        ["foundryconfig", "foundryconfig.<OS>", "foundryconfig.local"]
+          .map((layer) => path.join(rootPath, `${layer}.{yml,yaml,json}`))
+          .join("\n  - "),
+    )
   }
 
-  throw new Error("No Foundry VTT config file found.\nSearch for:\n  - " + searchPaths.join("\n  - "))
+  // Keep track of the layer defining each key, to report where an invalid value comes from.
+  const config: Record<string, unknown> = {}
+  const keySources: Record<string, string> = {}
+  for (const [source, layer] of layers) {
+    for (const [key, value] of Object.entries(layer)) {
+      config[key] = isPlainObject(config[key]) && isPlainObject(value) ? { ...config[key], ...value } : value
+      keySources[key] = source
+    }
+  }
 
-  function getSearchPaths(): string[] {
+  const issues = Object.entries(config).flatMap(([key, value]) => {
+    const schema = FOUNDRY_CONFIG_SCHEMA[key as keyof FoundryConfig]
+    if (!schema) return [`${key} (${keySources[key]}): unknown key`]
+    const [description, check] = schema
+    return check(value) ? [] : [`${key} (${keySources[key]}): must be ${description}`]
+  })
+  if (issues.length > 0) throw new Error(`Invalid Foundry VTT config:\n  - ${issues.join("\n  - ")}`)
+
+  return { config: config as FoundryConfig, sources: layers.map(([source]) => source) }
+
+  function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value)
+  }
+
+  function parseEnvValue(key: keyof FoundryConfig, value: string): unknown {
+    switch (key) {
+      case "port":
+        return value.trim() === "" ? value : Number(value)
+      case "demo":
+      case "noupnp":
+      case "noupdate":
+        return ["true", "1"].includes(value) ? true : ["false", "0", ""].includes(value) ? false : value
+      default:
+        return value
+    }
+  }
+}
+
+/**
+ * Get the full path to the Foundry VTT package manifest, `system.{json|yml|yaml}` or `module.{json|yml|yaml}`.
+ * @param rootPath The directory path containing the file.
+ * @returns The file path to the Foundry VTT package manifest.
+ */
+export async function getFoundryManifestPath(rootPath = "."): Promise<string> {
+  for (const packageType of ["system", "module"]) {
     const searchPaths = [
-      path.join(rootPath, "foundryconfig.yml"),
-      path.join(rootPath, "foundryconfig.yaml"),
-      path.join(rootPath, "foundryconfig.json"),
+      path.resolve(rootPath, `${packageType}.json`),
+      path.resolve(rootPath, "src", `${packageType}.json`),
+      path.resolve(rootPath, "public", `${packageType}.json`),
+      path.resolve(rootPath, "static", `${packageType}.json`),
+      path.resolve(rootPath, `${packageType}.yml`),
+      path.resolve(rootPath, `${packageType}.yaml`),
+      path.resolve(rootPath, "src", `${packageType}.yml`),
+      path.resolve(rootPath, "src", `${packageType}.yaml`),
     ]
-    const os = (() => {
-      switch (platform) {
-        case "darwin":
-          return "macosx"
-        case "linux":
-          return "linux"
-        case "win32":
-          return "windows"
-        default:
-          return undefined
+    for (const searchPath of searchPaths) {
+      if (await fse.exists(searchPath)) {
+        return searchPath
       }
-    })()
-    if (os) {
-      const filenameWithoutExt = `foundryconfig.${os}`
-      searchPaths.push(path.join(rootPath, filenameWithoutExt + ".yml"))
-      searchPaths.push(path.join(rootPath, filenameWithoutExt + ".yaml"))
-      searchPaths.push(path.join(rootPath, filenameWithoutExt + ".json"))
     }
-
-    return searchPaths
   }
+
+  throw new Error("Could not find either system.{json,yml} nor module.{json,yml}")
 }
 
 /**
@@ -52,33 +141,20 @@ export async function getFoundryConfigPath(rootPath = "."): Promise<string> {
  * @returns "system" if package is a system or "module" if package is a module.
  */
 export async function getFoundryPackageType(rootPath = "."): Promise<"module" | "system"> {
-  if (
-    (await fse.exists(path.resolve(rootPath, "system.json"))) ||
-    (await fse.exists(path.resolve(rootPath, "src", "system.json"))) ||
-    (await fse.exists(path.resolve(rootPath, "public", "system.json"))) ||
-    (await fse.exists(path.resolve(rootPath, "static", "system.json"))) ||
-    (await fse.exists(path.resolve(rootPath, "system.yml"))) ||
-    (await fse.exists(path.resolve(rootPath, "system.yaml"))) ||
-    (await fse.exists(path.resolve(rootPath, "src", "system.yml"))) ||
-    (await fse.exists(path.resolve(rootPath, "src", "system.yaml")))
-  ) {
-    return "system"
-  }
-
-  if (
-    (await fse.exists(path.resolve(rootPath, "module.json"))) ||
-    (await fse.exists(path.resolve(rootPath, "src", "module.json"))) ||
-    (await fse.exists(path.resolve(rootPath, "public", "module.json"))) ||
-    (await fse.exists(path.resolve(rootPath, "static", "module.json"))) ||
-    (await fse.exists(path.resolve(rootPath, "module.yml"))) ||
-    (await fse.exists(path.resolve(rootPath, "module.yaml"))) ||
-    (await fse.exists(path.resolve(rootPath, "src", "module.yml"))) ||
-    (await fse.exists(path.resolve(rootPath, "src", "module.yaml")))
-  ) {
-    return "module"
-  }
+  const manifestPath = await getFoundryManifestPath(rootPath)
+  return path.basename(manifestPath).startsWith("system.") ? "system" : "module"
+}
 
-  throw new Error("Could not find either system.{json,yml} nor module.{json,yml}")
+/**
+ * Read the Foundry VTT package manifest.
+ * @param rootPath The directory path containing the file.
+ * @returns Contents of the manifest as object.
+ */
+export async function readFoundryManifest(rootPath = "."): Promise<Record<string, unknown>> {
+  const filepath = await getFoundryManifestPath(rootPath)
+  const data = await fse.readFile(filepath, "utf-8")
+  if (path.extname(filepath) === ".json") return JSON.parse(data)
+  return YAML.load(data, { json: true, filename: filepath }) as Record<string, unknown>
 }
 
 /**
@@ -92,3 +168,97 @@ export async function readPackageJson(rootPath = ".", fileName = "package.json")
   const data = await fse.readFile(filepath, "utf-8")
   return JSON.parse(data)
 }
+
+/**
+ * Compare two Foundry VTT versions, e.g. "12.331" and "13", on the parts present in both of them, so that "13.345"
+ * matches "13".
+ * @param a The first version.
+ * @param b The second version.
+ * @returns A negative number if `a` is older than `b`, a positive number if it is newer, 0 if they match.
+ */
+export function compareFoundryVersions(a: string, b: string): number {
+  const partsA = a.split(".").map(Number)
+  const partsB = b.split(".").map(Number)
+  for (let i = 0; i < Math.min(partsA.length, partsB.length); i++) {
+    if (partsA[i] !== partsB[i]) return partsA[i] - partsB[i]
+  }
+  return 0
+}
+
+/**
+ * Expand the environment variables of a path, as `$VAR`, `${VAR}`, `${VAR:-default}` or `%VAR%`, and a leading `~`
+ * to the home directory. Undefined variables expand to an empty string, except for `%VAR%` which is left as is.
+ * @param input The path.
+ * @param env   The environment variables.
+ * @returns The expanded path.
+ */
+export function expandPath(input: string, env: NodeJS.ProcessEnv = process.env): string {
+  return input
+    .replace(/^~(?=$|[\\/])/, () => os.homedir())
+    .replace(
+      /\$\{(\w+)(?::-([^}]*))?\}|\$(\w+)|%(\w+)%/g,
+      (match, braced?: string, fallback?: string, bare?: string, windows?: string) => {
+        const value = env[(braced ?? bare ?? windows) as string]
+        if (fallback !== undefined) return value || expandPath(fallback, env)
+        if (windows) return value ?? match
+        return value ?? ""
+      },
+    )
+}
+
+/**
+ * Format the status of the data and install paths of the config.
+ * @param report The status of every path.
+ * @returns One line per path.
+ */
+export function formatPathReport(report: FoundryPathStatus[]): string {
+  return report
+    .map(({ kind, name, configured, resolved, status }) => {
+      const label = `${kind}${name ? ` (${name})` : ""}`
+      return `  - [${status}] ${label}: ${configured}${resolved !== configured ? ` -> ${resolved}` : ""}`
+    })
+    .join("\n")
+}
+
+/* -------------------------------------------- */
+/*  Constants                                   */
+/* -------------------------------------------- */
+
+/** The environment variables overriding the keys of the Foundry VTT config. */
+const FOUNDRY_CONFIG_ENV: Record<keyof FoundryConfig, string> = {
+  installPath: "FOUNDRY_INSTALL_PATH",
+  dataPath: "FOUNDRY_DATA_PATH",
+  port: "FOUNDRY_PORT",
+  world: "FOUNDRY_WORLD",
+  adminKey: "FOUNDRY_ADMIN_KEY",
+  demo: "FOUNDRY_DEMO",
+  noupnp: "FOUNDRY_NOUPNP",
+  noupdate: "FOUNDRY_NOUPDATE",
+}
+
+const isString = (value: unknown): value is string => typeof value === "string"
+const isBoolean = (value: unknown) => typeof value === "boolean"
+
+/** The schema of the Foundry VTT config: the description and the check of the value of each key. */
+const FOUNDRY_CONFIG_SCHEMA: Record<keyof FoundryConfig, [string, (value: unknown) => boolean]> = {
+  installPath: [
+    "a path, a list of paths or an object of named paths",
+    (value) =>
+      isString(value) ||
+      (Array.isArray(value) && value.every(isString)) ||
+      (typeof value === "object" && value !== null && Object.values(value).every(isString)),
+  ],
+  dataPath: [
+    "a path or a list of paths",
+    (value) => isString(value) || (Array.isArray(value) && value.every(isString)),
+  ],
+  port: [
+    "an integer between 1 and 65535",
+    (value) => Number.isInteger(value) && (value as number) > 0 && (value as number) < 65536,
+  ],
+  world: ["a string", isString],
+  adminKey: ["a string", isString],
+  demo: ["a boolean", isBoolean],
+  noupnp: ["a boolean", isBoolean],
+  noupdate: ["a boolean", isBoolean],
+}
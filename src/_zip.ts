@@ -0,0 +1,99 @@
+import * as fse from "fs-extra"
+import { deflateRawSync } from "node:zlib"
+
+/**
+ * Write a ZIP archive, one file at a time so that only one of them is held in memory. Files are deflated unless
+ * that does not make them smaller, in which case they are stored. ZIP64 is not supported.
+ * @param zipPath The path of the archive.
+ * @param files   The files to add, by their path inside the archive, using forward slashes.
+ */
+export async function writeZip(zipPath: string, files: { name: string; source: string }[]): Promise<void> {
+  await fse.ensureFile(zipPath)
+  const handle = await fse.promises.open(zipPath, "w")
+  const centralDirectory: Buffer[] = []
+  let offset = 0
+  const write = async (buffer: Buffer) => {
+    await handle.write(buffer)
+    offset += buffer.length
+  }
+
+  try {
+    for (const { name, source } of files) {
+      const data = await fse.readFile(source)
+      const { mtime } = await fse.stat(source)
+      const deflated = deflateRawSync(data)
+      const method = deflated.length < data.length ? 8 : 0
+      const content = method === 8 ? deflated : data
+      if (offset + content.length > 0xffffffff) throw new Error(`The archive ${zipPath} exceeds 4 GiB.`)
+
+      const fileName = Buffer.from(name, "utf-8")
+      const [time, date] = toDosDateTime(mtime)
+      // The fields shared by the local file header and the central directory header.
+      const fields = Buffer.alloc(26)
+      fields.writeUInt16LE(20, 0) // Version needed to extract.
+      fields.writeUInt16LE(0x0800, 2) // The file name is encoded in UTF-8.
+      fields.writeUInt16LE(method, 4)
+      fields.writeUInt16LE(time, 6)
+      fields.writeUInt16LE(date, 8)
+      fields.writeUInt32LE(crc32(data), 10)
+      fields.writeUInt32LE(content.length, 14)
+      fields.writeUInt32LE(data.length, 18)
+      fields.writeUInt16LE(fileName.length, 22)
+      fields.writeUInt16LE(0, 24) // Extra field length.
+
+      const centralHeader = Buffer.alloc(46)
+      centralHeader.writeUInt32LE(0x02014b50, 0)
+      centralHeader.writeUInt16LE(20, 4) // Version made by.
+      fields.copy(centralHeader, 6)
+      centralHeader.writeUInt32LE(offset, 42)
+      centralDirectory.push(centralHeader, fileName)
+
+      const localHeader = Buffer.alloc(4)
+      localHeader.writeUInt32LE(0x04034b50, 0)
+      await write(Buffer.concat([localHeader, fields, fileName]))
+      await write(content)
+    }
+
+    const directory = Buffer.concat(centralDirectory)
+    const end = Buffer.alloc(22)
+    end.writeUInt32LE(0x06054b50, 0)
+    end.writeUInt16LE(files.length, 8)
+    end.writeUInt16LE(files.length, 10)
+    end.writeUInt32LE(directory.length, 12)
+    end.writeUInt32LE(offset, 16)
+    await write(Buffer.concat([directory, end]))
+  } finally {
+    await handle.close()
+  }
+}
+
+/**
+ * Convert a date to the MS-DOS time and date formats used by ZIP archives, in local time.
+ * @param date The date.
+ * @returns The time and the date.
+ */
+function toDosDateTime(date: Date): [number, number] {
+  const year = Math.max(date.getFullYear(), 1980)
+  return [
+    (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+    ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  ]
+}
+
+/** The lookup table of the CRC-32 checksum. */
+const CRC32_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  return c >>> 0
+})
+
+/**
+ * Compute the CRC-32 checksum of some data.
+ * @param data The data.
+ * @returns The checksum.
+ */
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff
+  for (const byte of data) crc = CRC32_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
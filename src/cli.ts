@@ -0,0 +1,424 @@
+#!/usr/bin/env node
+
+import yargs from "yargs"
+import { hideBin } from "yargs/helpers"
+import { formatPathReport } from "./_utils"
+import { compilePack, extractPack, TYPE_COLLECTION_MAP } from "./database"
+import type { DocumentType } from "./database"
+import { checkLocalization, exportBabeleTranslations } from "./localization"
+import { buildManifest } from "./manifest"
+import { normalizeSources } from "./normalize"
+import { packageRelease } from "./release"
+import { getFoundryConfigInfo, launchCompatibleFoundryVersions, launchFoundry } from "./utils"
+import { watchPacks } from "./watch"
+
+/** The types of Document accepted by the `documentType` options. */
+const DOCUMENT_TYPES = Object.keys(TYPE_COLLECTION_MAP) as DocumentType[]
+
+yargs(hideBin(process.argv))
+  .scriptName("fvtt-utils")
+  .usage("$0 <command> [options]")
+  .command("pack", "Compile or extract compendium packs.", (yargs) =>
+    yargs
+      .command(
+        "compile <src> <dest>",
+        "Compile source files into a compendium pack.",
+        (yargs) =>
+          yargs
+            .positional("src", { type: "string", demandOption: true, describe: "The directory of the source files." })
+            .positional("dest", { type: "string", demandOption: true, describe: "The target compendium pack." })
+            .option("nedb", { type: "boolean", default: false, describe: "Compile into a NeDB .db file." })
+            .option("yaml", { type: "boolean", default: false, describe: "The source files are in YAML format." })
+            .option("recursive", { type: "boolean", default: false, describe: "Search source files recursively." })
+            .option("dryRun", {
+              type: "boolean",
+              default: false,
+              describe: "Only report the changes, failing if the pack is out of sync with its sources.",
+            })
+            .option("incremental", {
+              type: "boolean",
+              default: false,
+              describe: "Only write the entries whose content changed since the last incremental compilation.",
+            })
+            .option("validate", {
+              type: "boolean",
+              default: false,
+              describe: "Validate the source files before packing anything.",
+            })
+            .option("normalize", {
+              type: "boolean",
+              default: false,
+              describe: "Generate the missing _id and _key of the source files.",
+            })
+            .option("documentType", { choices: DOCUMENT_TYPES, describe: "The type of Document stored in the pack." })
+            .option("log", { type: "boolean", default: true, describe: "Log operation progress." }),
+        async ({ src, dest, nedb, yaml, recursive, dryRun, incremental, validate, normalize, documentType, log }) => {
+          const { added, modified, unchanged, removed } = await compilePack(src, dest, {
+            nedb,
+            yaml,
+            recursive,
+            dryRun,
+            incremental,
+            validate,
+            normalize,
+            documentType,
+            log: log && !dryRun,
+          })
+          if (!dryRun) return
+          for (const key of added) console.log(`+ ${key}`)
+          for (const key of modified) console.log(`~ ${key}`)
+          for (const key of removed) console.log(`- ${key}`)
+          console.log(
+            `${added.length} added, ${modified.length} modified, ${unchanged.length} unchanged, ${removed.length} removed`,
+          )
+          if (added.length + modified.length + removed.length > 0) process.exitCode = 1
+        },
+      )
+      .command(
+        "extract <src> <dest>",
+        "Extract a compendium pack into individual source files.",
+        (yargs) =>
+          yargs
+            .positional("src", { type: "string", demandOption: true, describe: "The source compendium pack." })
+            .positional("dest", { type: "string", demandOption: true, describe: "The directory to write files into." })
+            .option("nedb", { type: "boolean", default: false, describe: "Extract from a NeDB .db file." })
+            .option("yaml", { type: "boolean", default: false, describe: "Write the source files in YAML format." })
+            .option("documentType", {
+              choices: DOCUMENT_TYPES,
+              describe: "The type of Document stored in a NeDB pack.",
+            })
+            .option("clean", { type: "boolean", default: false, describe: "Empty the target directory first." })
+            .option("folders", { type: "boolean", default: false, describe: "Mirror the compendium folders." })
+            .option("canonical", {
+              type: "boolean",
+              default: false,
+              describe: "Write sorted keys, rounded numbers and no volatile fields for stable diffs.",
+            })
+            .option("sidecars", {
+              type: "boolean",
+              default: false,
+              describe: "Write journal page HTML/markdown and script macro commands to sidecar files.",
+            })
+            .option("layout", {
+              choices: ["document", "directory"] as const,
+              default: "document" as const,
+              describe: "Write each document to a single file, or to a directory with one file per embedded document.",
+            })
+            .option("snapshot", {
+              type: "boolean",
+              default: false,
+              describe: "Extract from a copy of the pack, e.g. while it is locked by a running Foundry VTT server.",
+            })
+            .option("log", { type: "boolean", default: true, describe: "Log operation progress." }),
+        async ({ src, dest, nedb, yaml, documentType, clean, folders, canonical, sidecars, layout, snapshot, log }) => {
+          await extractPack(src, dest, {
+            nedb,
+            yaml,
+            documentType,
+            clean,
+            folders,
+            canonical,
+            sidecars,
+            layout,
+            snapshot,
+            log,
+          })
+        },
+      )
+      .command(
+        "normalize <src>",
+        "Generate the missing _id and _key of source files, and write them back.",
+        (yargs) =>
+          yargs
+            .positional("src", { type: "string", demandOption: true, describe: "The directory of the source files." })
+            .option("documentType", { choices: DOCUMENT_TYPES, describe: "The type of Document stored in the pack." })
+            .option("yaml", { type: "boolean", default: false, describe: "The source files are in YAML format." })
+            .option("recursive", { type: "boolean", default: false, describe: "Search source files recursively." })
+            .option("log", { type: "boolean", default: true, describe: "Log operation progress." }),
+        async ({ src, documentType, yaml, recursive, log }) => {
+          await normalizeSources(src, {
+            documentType,
+            yaml,
+            recursive,
+            write: true,
+            log,
+          })
+        },
+      )
+      .command(
+        "watch [rootPath]",
+        "Recompile the compendium packs of a Foundry VTT package whenever their source files change.",
+        (yargs) =>
+          yargs
+            .positional("rootPath", {
+              type: "string",
+              default: ".",
+              describe: "The directory path to the root of the Foundry VTT package.",
+            })
+            .option("sourcePath", {
+              type: "string",
+              default: "packs/_source",
+              describe: "The directory containing one source directory per pack, relative to the package root.",
+            })
+            .option("yaml", { type: "boolean", default: false, describe: "The source files are in YAML format." })
+            .option("recursive", { type: "boolean", default: false, describe: "Search source files recursively." })
+            .option("validate", {
+              type: "boolean",
+              default: false,
+              describe: "Validate the source files before packing anything.",
+            })
+            .option("debounce", {
+              type: "number",
+              default: 300,
+              describe: "The delay in milliseconds without changes before a pack is recompiled.",
+            }),
+        async ({ rootPath, sourcePath, yaml, recursive, validate, debounce }) => {
+          await watchPacks(rootPath, { sourcePath, yaml, recursive, validate, debounce })
+        },
+      )
+      .demandCommand(1),
+  )
+  .command("lang", "Check the localization or export translations.", (yargs) =>
+    yargs
+      .command(
+        "check [rootPath]",
+        "Report the localization keys which are missing, unused or only present in some languages.",
+        (yargs) =>
+          yargs
+            .positional("rootPath", {
+              type: "string",
+              default: ".",
+              describe: "The directory path to the root of the Foundry VTT package.",
+            })
+            .option("sourcePaths", {
+              type: "array",
+              string: true,
+              default: ["src", "templates"],
+              describe: "The directories of the scripts and templates, relative to the package root.",
+            })
+            .option("packsPath", {
+              type: "string",
+              default: "packs/_source",
+              describe: "The directory containing one source directory per pack, relative to the package root.",
+            })
+            .option("yaml", { type: "boolean", default: false, describe: "The pack source files are in YAML format." }),
+        async ({ rootPath, sourcePaths, packsPath, yaml }) => {
+          const issues = await checkLocalization(rootPath, { sourcePaths, packsPath, yaml })
+          for (const { type, key, source, languages } of issues) {
+            if (type === "missing") console.log(`Missing key ${key}, referenced in ${source}`)
+            else if (type === "unused") console.log(`Unused key ${key}`)
+            else console.log(`Partial key ${key}, missing in ${languages?.join(", ")}`)
+          }
+          console.log(`${issues.length} localization issue(s) found`)
+          if (issues.length > 0) process.exitCode = 1
+        },
+      )
+      .command(
+        "babele [rootPath]",
+        "Export the names and descriptions of the compendium documents into Babele translation files.",
+        (yargs) =>
+          yargs
+            .positional("rootPath", {
+              type: "string",
+              default: ".",
+              describe: "The directory path to the root of the Foundry VTT package.",
+            })
+            .option("outDir", {
+              type: "string",
+              default: "lang/babele",
+              describe: "The directory to write the translation files into, relative to the package root.",
+            })
+            .option("keyBy", {
+              choices: ["name", "id"] as const,
+              default: "name" as const,
+              describe: "Key the entries by document name or by ID.",
+            }),
+        async ({ rootPath, outDir, keyBy }) => {
+          const files = await exportBabeleTranslations(rootPath, outDir, { keyBy })
+          for (const file of files) console.log(`Exported ${file}`)
+        },
+      )
+      .demandCommand(1),
+  )
+  .command("manifest", "Build the Foundry VTT package manifest.", (yargs) =>
+    yargs
+      .command(
+        "build [rootPath]",
+        "Write the manifest built from package.json and the package files into the output directory.",
+        (yargs) =>
+          yargs
+            .positional("rootPath", {
+              type: "string",
+              default: ".",
+              describe: "The directory path to the root of the Foundry VTT package.",
+            })
+            .option("outDir", {
+              type: "string",
+              default: "dist",
+              describe: "The output directory of the package, relative to the package root.",
+            }),
+        async ({ rootPath, outDir }) => {
+          const manifest = await buildManifest(rootPath, outDir)
+          console.log(`Built the manifest of ${manifest.id} ${manifest.version}`)
+        },
+      )
+      .demandCommand(1),
+  )
+  .command(
+    "release [rootPath]",
+    "Compile the packs and package a release archive along with its manifest.",
+    (yargs) =>
+      yargs
+        .positional("rootPath", {
+          type: "string",
+          default: ".",
+          describe: "The directory path to the root of the Foundry VTT package.",
+        })
+        .option("outDir", {
+          type: "string",
+          default: "release",
+          describe: "The directory to write the release into, relative to the package root.",
+        })
+        .option("repoUrl", {
+          type: "string",
+          describe: "The URL of the repository, otherwise the repository of package.json.",
+        })
+        .option("sourcePath", {
+          type: "string",
+          default: "packs/_source",
+          describe: "The directory containing one source directory per pack, relative to the package root.",
+        })
+        .option("include", {
+          type: "array",
+          string: true,
+          default: ["**"],
+          describe: "The glob patterns of the files to include, relative to the manifest directory.",
+        })
+        .option("exclude", {
+          type: "array",
+          string: true,
+          default: [],
+          describe: "The glob patterns of the files to exclude, relative to the manifest directory.",
+        })
+        .option("yaml", { type: "boolean", default: false, describe: "The source files are in YAML format." })
+        .option("recursive", { type: "boolean", default: false, describe: "Search source files recursively." })
+        .option("log", { type: "boolean", default: true, describe: "Log operation progress." }),
+    async ({ rootPath, outDir, repoUrl, sourcePath, include, exclude, yaml, recursive, log }) => {
+      await packageRelease(rootPath, { outDir, repoUrl, sourcePath, include, exclude, yaml, recursive, log })
+    },
+  )
+  .command("config", "Inspect the Foundry VTT configuration.", (yargs) =>
+    yargs
+      .command(
+        "show [rootPath]",
+        "Print the resolved Foundry VTT configuration.",
+        (yargs) =>
+          yargs.positional("rootPath", {
+            type: "string",
+            default: ".",
+            describe: "The directory path to the root of the Foundry VTT package.",
+          }),
+        async ({ rootPath }) => {
+          const config = await getFoundryConfigInfo(rootPath)
+          // The admin key is a secret, which must not end up in CI logs.
+          if (config?.adminKey) config.adminKey = "********"
+          console.log(JSON.stringify(config, null, 2))
+        },
+      )
+      .command(
+        "check [rootPath]",
+        "Report the status of every configured data and install path.",
+        (yargs) =>
+          yargs.positional("rootPath", {
+            type: "string",
+            default: ".",
+            describe: "The directory path to the root of the Foundry VTT package.",
+          }),
+        async ({ rootPath }) => {
+          const { pathReport = [] } = (await getFoundryConfigInfo(rootPath)) ?? {}
+          console.log(formatPathReport(pathReport))
+          if (pathReport.some(({ status }) => status !== "ok")) process.exitCode = 1
+        },
+      )
+      .demandCommand(1),
+  )
+  .command(
+    "launch [rootPath]",
+    "Launch the local Foundry VTT server.",
+    (yargs) =>
+      yargs
+        .positional("rootPath", {
+          type: "string",
+          default: ".",
+          describe: "The directory path to the root of the Foundry VTT package.",
+        })
+        .option("dataPath", { type: "string", describe: "A custom data path for this Foundry VTT package." })
+        .option("world", { type: "string", describe: "A world to create (if none) and start." })
+        .option("port", { type: "number", describe: "The port to launch Foundry VTT on." })
+        .option("demo", { type: "boolean", describe: "Launch in demo mode." })
+        .option("noupnp", { type: "boolean", describe: "Disable UPnP port forwarding." })
+        .option("noupdate", { type: "boolean", describe: "Disable automatic update checking." })
+        .option("temporary", {
+          type: "boolean",
+          default: false,
+          describe: "Launch with a throwaway data path containing the package, removed on exit.",
+        })
+        .option("copy", {
+          type: "boolean",
+          default: false,
+          describe: "Copy the package into the throwaway data path instead of symlinking it.",
+        })
+        .option("foundryVersion", {
+          type: "string",
+          describe: "The name or version of the Foundry VTT installation to launch, e.g. v12 or 13.",
+        })
+        .option("compatible", {
+          type: "boolean",
+          default: false,
+          describe: "Launch every installed version compatible with the manifest, with throwaway data paths.",
+        })
+        .option("watch", {
+          type: "boolean",
+          default: false,
+          describe: "Recompile the compendium packs whenever their source files change.",
+        })
+        .conflicts("compatible", ["dataPath", "foundryVersion"]),
+    async ({
+      rootPath,
+      dataPath,
+      world,
+      port,
+      demo,
+      noupnp,
+      noupdate,
+      temporary,
+      copy,
+      foundryVersion,
+      compatible,
+      watch,
+    }) => {
+      const options = { world, port, demo, noupnp, noupdate }
+      const servers = compatible
+        ? await launchCompatibleFoundryVersions(rootPath, { ...options, temporaryData: { copy } })
+        : [
+            await launchFoundry(rootPath, {
+              ...options,
+              dataPath,
+              version: foundryVersion,
+              temporaryData: temporary && { copy },
+            }),
+          ].filter((server) => server !== undefined)
+      // Stop the servers gracefully on Ctrl+C, so that throwaway data paths are removed.
+      process.once("SIGINT", () => servers.forEach((server) => server.stop()))
+      for (const server of servers) {
+        await server.ready
+        console.log(`Foundry VTT is listening on port ${server.port}`)
+      }
+      if (watch && servers.length > 0) await watchPacks(rootPath)
+    },
+  )
+  .demandCommand(1)
+  .strict()
+  .showHelpOnFail(false)
+  .help()
+  .parse()
@@ -5,6 +5,12 @@ import * as YAML from "js-yaml"
 import path from "path"
 import pc from "picocolors"
 import { ClassicLevel } from "classic-level"
+import Datastore from "nedb-promises"
+import { createHash } from "node:crypto"
+import os from "node:os"
+import { normalizeEntries } from "./normalize"
+import { assertValidDocuments, defaultValidators } from "./validation"
+import type { DocumentValidator } from "./validation"
 
 /* -------------------------------------------- */
 /*  Compiling                                   */
@@ -21,78 +27,317 @@ import { ClassicLevel } from "classic-level"
  * @param options.transformEntry  A function that is called on every entry to transform it.
  * @param options.recursive       Whether to recurse into child directories to locate source files, otherwise
  *                                only source files located in the root directory will be used.
+ * @param options.dryRun          Whether to only compute the changes, without writing anything to the pack.
+ * @param options.incremental     Whether to store a content hash per key next to the pack, so that only changed
+ *                                entries are written and the pack is compacted only when something changed. The
+ *                                hashes are ignored if the pack was opened by anything else since. (LevelDB ONLY)
+ * @param options.validate        Whether to validate the source files before packing anything, or the validators
+ *                                to use instead of the default ones. All the issues found are reported together.
+ * @param options.normalize       Whether to generate the missing `_id` and `_key` of the source files before
+ *                                packing, or "write" to also write the normalized documents back to the files,
+ *                                unless it is a dry run.
+ * @param options.documentType    The type of Document stored in the pack, used to derive the missing `_key`s.
+ * @returns The keys added, modified, unchanged and removed by the compilation.
  */
 export async function compilePack(
   src: string,
   dest: string,
-  { nedb = false, yaml = false, recursive = false, log = false, transformEntry }: Partial<CompileOptions> = {},
-): Promise<void> {
-  if (nedb) throw new Error("NeDB files are obsolete and only Classic database level files are handled!")
-  const files = findSourceFiles(src, { yaml, recursive })
-  return compileClassicLevel(dest, files, { log, transformEntry })
+  {
+    nedb = false,
+    yaml = false,
+    recursive = false,
+    log = false,
+    dryRun = false,
+    incremental = false,
+    validate = false,
+    normalize = false,
+    documentType,
+    transformEntry,
+  }: Partial<CompileOptions> = {},
+): Promise<CompileResult> {
+  if (nedb && path.extname(dest) !== ".db") {
+    throw new Error("The nedb option was passed to compilePack, but the target pack does not have a .db extension.")
+  }
+  if (nedb && incremental) throw new Error("Incremental compilation is only supported for LevelDB packs.")
+  let entries: AsyncIterable<SourceEntry> = readSourceFiles(findSourceFiles(src, { yaml, recursive }), { log })
+  if (normalize) entries = normalizeEntries(entries, { documentType, write: normalize === "write" && !dryRun, log })
+  entries = inlineSidecars(entries)
+  if (validate) {
+    const sources: SourceEntry[] = []
+    for await (const entry of entries) sources.push(entry)
+    assertValidDocuments(sources, validate === true ? defaultValidators : validate, { log })
+    entries = toAsyncIterable(sources)
+  }
+  if (nedb) return compileNedb(dest, entries, { log, dryRun, transformEntry })
+  return compileClassicLevel(dest, entries, { log, dryRun, incremental, transformEntry })
 }
 
 /**
- * Compile a set of files into a LevelDB compendium pack.
- * @param pack  The target compendium pack.
- * @param files The source files.
- * @param  [options]
+ * Compile a set of entries into a NeDB compendium pack.
+ * @param pack    The target compendium pack.
+ * @param entries The source entries.
+ * @param [options]
  * @returns
  */
-async function compileClassicLevel(
+async function compileNedb(
   pack: string,
-  files: string[],
-  { log, transformEntry }: Partial<PackageOptions> = {},
-): Promise<void> {
-  // Create the classic level directory if it doesn't already exist.
-  fse.mkdirSync(pack, { recursive: true })
+  entries: AsyncIterable<SourceEntry>,
+  { log, dryRun, transformEntry }: Partial<CompileOptions> = {},
+): Promise<CompileResult> {
+  // Load the existing entries to compute the changes, NeDB primary Documents are keyed by their ID.
+  const existing = new Map<string, Document>()
+  if (fse.existsSync(pack)) {
+    for (const doc of await loadNedb(pack)) existing.set(doc._id, doc)
+  }
 
-  // Load the directory as a ClassicLevel DB.
-  const db = new ClassicLevel<string, Document>(pack, { keyEncoding: "utf8", valueEncoding: "json" })
-  await db.open()
-  const batch = db.batch()
+  // Delete the existing NeDB file if it exists, and create a new NeDB Datastore.
+  if (!dryRun) fse.rmSync(pack, { force: true })
+  const db = dryRun ? undefined : Datastore.create(pack)
   const seenKeys = new Set()
+  const result: CompileResult = { added: [], modified: [], unchanged: [], removed: [] }
+  let packCollection: string | undefined
 
-  const packDoc = applyHierarchy(async (doc: Document, collection: string) => {
-    const key = doc._key as string
-    delete doc._key
-    if (seenKeys.has(key)) {
-      throw new Error(`An entry with key '${key}' was already packed and would be overwritten by this entry.`)
+  const packDoc = applyHierarchy(async (doc: Document) => {
+    if (seenKeys.has(doc._key)) {
+      throw new Error(`An entry with key '${doc._key}' was already packed and would be overwritten by this entry.`)
     }
-    seenKeys.add(key)
-    const value = structuredClone(doc) as Document
-    await mapHierarchy(value, collection, (d) => d._id)
-    batch.put(key, value)
+    seenKeys.add(doc._key)
+    delete doc._key
   })
 
-  // Iterate over all files in the input directory, writing them to the DB.
-  for (const file of files) {
+  // Iterate over all source entries, writing them to the DB.
+  for await (const { source, doc } of entries) {
     try {
-      const contents = fse.readFileSync(file, "utf8")
-      const ext = path.extname(file)
-      const isYaml = ext === ".yml" || ext === ".yaml"
-      const doc = isYaml ? YAML.load(contents) : JSON.parse(contents)
-      const [, collection] = doc._key.split("!")
+      const key = getSourceKey(doc)
+      const [, collection] = key.split("!")
+      // NeDB packs do not support folders, skip them.
+      if (key.startsWith("!folders")) continue
       if ((await transformEntry?.(doc)) === false) continue
       await packDoc(doc, collection)
+      packCollection ??= collection
+      const previous = existing.get(doc._id)
+      existing.delete(doc._id)
+      if (!previous) result.added.push(key)
+      else if (isDeepEqual(previous, doc)) result.unchanged.push(key)
+      else result.modified.push(key)
+      await db?.insert(doc)
       if (log) console.log(`Packed ${pc.blue(doc._id)}${pc.blue(doc.name ? ` (${doc.name})` : "")}`)
     } catch (err) {
-      if (log) console.error(`Failed to pack ${pc.red(file)}. See error below.`)
+      if (log) console.error(`Failed to pack ${pc.red(source)}. See error below.`)
       throw err
     }
   }
 
-  // Remove any entries in the DB that are not part of the source set.
-  for (const key of await db.keys().all()) {
-    if (!seenKeys.has(key)) {
-      batch.del(key)
-      if (log) console.log(`Removed ${pc.blue(key)}`)
+  // Report any entries in the DB that are not part of the source set.
+  for (const doc of existing.values()) {
+    const key = packCollection ? `!${packCollection}!${doc._id}` : doc._id
+    result.removed.push(key)
+    if (log) console.log(`${dryRun ? "Would remove" : "Removed"} ${pc.blue(key)}`)
+  }
+
+  if (db) {
+    // Compact the DB. The typings of nedb-promises only expose the deprecated `persistence` API, while the proxied
+    // @seald-io/nedb datastore provides the supported one.
+    const datastore = db as unknown as { stopAutocompaction(): void; compactDatafileAsync(): Promise<void> }
+    datastore.stopAutocompaction()
+    await datastore.compactDatafileAsync()
+  }
+  return result
+}
+
+/**
+ * Compile a set of entries into a LevelDB compendium pack.
+ * @param pack    The target compendium pack.
+ * @param entries The source entries.
+ * @param  [options]
+ * @returns
+ */
+async function compileClassicLevel(
+  pack: string,
+  entries: AsyncIterable<SourceEntry>,
+  { log, dryRun, incremental, transformEntry }: Partial<CompileOptions> = {},
+): Promise<CompileResult> {
+  // A dry run never creates the pack, all of its entries are then considered as added.
+  const exists = fse.existsSync(pack)
+  // Without previous hashes, the content of each entry is compared to the one stored in the pack.
+  const previousHashes = incremental ? readPackHashes(pack) : undefined
+  const hashes: Record<string, string> = {}
+  let db: ClassicLevel<string, Document> | undefined
+  if (exists || !dryRun) {
+    // Create the classic level directory if it doesn't already exist.
+    fse.mkdirSync(pack, { recursive: true })
+
+    // Load the directory as a ClassicLevel DB.
+    db = await openClassicLevel(pack)
+  }
+  const result: CompileResult = { added: [], modified: [], unchanged: [], removed: [] }
+  // Close the DB even if a source entry is invalid, so that the pack is not left locked.
+  try {
+    const batch = db?.batch()
+    const seenKeys = new Set()
+
+    const packDoc = applyHierarchy(async (doc: Document, collection: string) => {
+      const key = doc._key as string
+      delete doc._key
+      if (seenKeys.has(key)) {
+        throw new Error(`An entry with key '${key}' was already packed and would be overwritten by this entry.`)
+      }
+      seenKeys.add(key)
+      const value = structuredClone(doc) as Document
+      await mapHierarchy(value, collection, (d) => d._id)
+      if (incremental) hashes[key] = hashDocument(value)
+      const status = await (async () => {
+        if (previousHashes) {
+          if (!(key in previousHashes)) return "added"
+          return previousHashes[key] === hashes[key] ? "unchanged" : "modified"
+        }
+        const previous = await db?.get(key)
+        if (!previous) return "added"
+        return isDeepEqual(previous, value) ? "unchanged" : "modified"
+      })()
+      result[status].push(key)
+      if (!dryRun && status !== "unchanged") batch?.put(key, value)
+    })
+
+    // Iterate over all source entries, writing them to the DB.
+    for await (const { source, doc } of entries) {
+      try {
+        const [, collection] = getSourceKey(doc).split("!")
+        if ((await transformEntry?.(doc)) === false) continue
+        await packDoc(doc, collection)
+        if (log) console.log(`Packed ${pc.blue(doc._id)}${pc.blue(doc.name ? ` (${doc.name})` : "")}`)
+      } catch (err) {
+        if (log) console.error(`Failed to pack ${pc.red(source)}. See error below.`)
+        throw err
+      }
+    }
+
+    // Remove any entries in the DB that are not part of the source set.
+    for (const key of (await db?.keys().all()) ?? []) {
+      if (!seenKeys.has(key)) {
+        result.removed.push(key)
+        if (!dryRun) batch?.del(key)
+        if (log) console.log(`${dryRun ? "Would remove" : "Removed"} ${pc.blue(key)}`)
+      }
+    }
+
+    if (db && batch) {
+      if (dryRun) await batch.close()
+      else {
+        const changed = result.added.length + result.modified.length + result.removed.length > 0
+        await batch.write()
+        if (!incremental || changed) await compactClassicLevel(db)
+      }
     }
+  } finally {
+    await db?.close()
   }
+  // Hashes are only kept up-to-date by incremental compilations, so drop them otherwise. They are written once the
+  // pack is closed, so that they are bound to the files of the pack as they are left.
+  if (db && !dryRun) {
+    if (incremental) writePackHashes(pack, hashes)
+    else fse.rmSync(getHashesPath(pack), { force: true })
+  }
+  return result
+}
+
+/**
+ * Get the path of the file storing the content hashes of an incrementally compiled LevelDB pack. It is a hidden
+ * file next to the pack, so that it is not shipped along with the pack.
+ * @param pack The compendium pack.
+ * @returns The path.
+ */
+function getHashesPath(pack: string): string {
+  return path.join(path.dirname(pack), `.${path.basename(pack)}.hashes.json`)
+}
+
+/**
+ * Describe the files of a LevelDB pack, which change whenever the pack is written or merely opened.
+ * @param pack The compendium pack.
+ * @returns The name, size and modification time of each file.
+ */
+function getPackFiles(pack: string): string[] {
+  if (!fse.existsSync(pack)) return []
+  return fse
+    .readdirSync(pack)
+    .filter((name) => !["LOCK", "LOG", "LOG.old"].includes(name))
+    .sort()
+    .map((name) => {
+      const { size, mtimeMs } = fse.statSync(path.join(pack, name))
+      return `${name}:${size}:${mtimeMs}`
+    })
+}
 
-  await batch.write()
-  await compactClassicLevel(db)
-  await db.close()
+/**
+ * Read the content hashes of an incrementally compiled LevelDB pack. They are only trusted if the pack was not
+ * touched since they were written, e.g. by a Foundry VTT server.
+ * @param pack The compendium pack.
+ * @returns The content hash of each key, if they are up-to-date.
+ */
+function readPackHashes(pack: string): Record<string, string> | undefined {
+  const hashesPath = getHashesPath(pack)
+  if (!fse.existsSync(hashesPath)) return undefined
+  const { files, hashes } = fse.readJSONSync(hashesPath) as { files?: string[]; hashes?: Record<string, string> }
+  return isDeepEqual(files, getPackFiles(pack)) ? hashes : undefined
+}
+
+/**
+ * Write the content hashes of an incrementally compiled LevelDB pack, along with the state of its files.
+ * @param pack   The compendium pack.
+ * @param hashes The content hash of each key.
+ */
+function writePackHashes(pack: string, hashes: Record<string, string>): void {
+  fse.writeJSONSync(getHashesPath(pack), { files: getPackFiles(pack), hashes })
+}
+
+/**
+ * Detect the type of Document stored in a LevelDB compendium pack, from the key of its first primary Document.
+ * @param pack The compendium pack.
+ * @returns The type of Document, if the pack contains any Document besides folders.
+ */
+export async function detectPackDocumentType(pack: string): Promise<DocumentType | undefined> {
+  const db = await openClassicLevel(pack)
+  try {
+    for await (const key of db.keys()) {
+      const [, collection] = key.split("!")
+      if (collection === "folders" || collection.includes(".")) continue
+      const entry = Object.entries(TYPE_COLLECTION_MAP).find(([, c]) => c === collection)
+      return entry?.[0] as DocumentType | undefined
+    }
+  } finally {
+    await db.close()
+  }
+}
+
+/**
+ * Open a LevelDB compendium pack.
+ * @param pack The compendium pack.
+ * @returns The opened DB.
+ * @throws {PackLockedError} If another process holds the lock of the pack.
+ */
+async function openClassicLevel(pack: string): Promise<ClassicLevel<string, Document>> {
+  const db = new ClassicLevel<string, Document>(pack, { keyEncoding: "utf8", valueEncoding: "json" })
+  try {
+    await db.open()
+  } catch (err) {
+    if ((err as { cause?: { code?: string } }).cause?.code === "LEVEL_LOCKED") throw new PackLockedError(pack, err)
+    throw err
+  }
+  return db
+}
+
+/**
+ * Copy a LevelDB compendium pack to a temporary directory, without its lock, so that it can be read while another
+ * process holds the lock of the original pack. LevelDB recovers the writes in progress from its log when opening the
+ * copy, which then reflects the current state of the pack.
+ * @param pack The compendium pack.
+ * @returns The path to the copy, to be removed by the caller.
+ */
+function snapshotClassicLevel(pack: string): string {
+  if (!fse.existsSync(pack)) throw new Error(`The pack ${pack} does not exist.`)
+  const snapshotPath = fse.mkdtempSync(path.join(os.tmpdir(), "fvtt-pack-"))
+  fse.copySync(pack, snapshotPath, { filter: (file) => path.basename(file) !== "LOCK" })
+  return snapshotPath
 }
 
 /**
@@ -124,6 +369,20 @@ async function compactClassicLevel(db: ClassicLevel<string, Document>): Promise<
  * @param options.nedb           Whether to operate on a NeDB database, otherwise a LevelDB database is assumed. (For compatibility ONLY)
  * @param options.yaml           Whether the source files are in YAML format, otherwise JSON is assumed.
  * @param options.log            Whether to log operation progress to the console.
+ * @param options.documentType   For NeDB operations, a type must be provided. NeDB packs only store one type of
+ *                               Document, so this is used to derive the `_key` of extracted entries.
+ * @param options.collection     For NeDB operations, a collection can be provided instead of a document type.
+ * @param options.canonical      Whether to serialize the Documents canonically, with stably sorted keys, rounded
+ *                               numbers and without volatile fields, so that unchanged Documents produce
+ *                               byte-identical files. Options can be provided to configure the volatile fields.
+ * @param options.sidecars       Whether to write the HTML and markdown of journal pages and the command of script
+ *                               macros to sidecar files next to their Document. `compilePack` inlines them back.
+ * @param options.layout         "directory" to write each primary Document as a directory containing a
+ *                               `_Document` file and one file per embedded Document, which `compilePack` reassembles.
+ *                               Defaults to "document", a single file per primary Document.
+ * @param options.snapshot       Whether to extract from a temporary copy of the pack, so that a pack locked by a
+ *                               running Foundry VTT server can be extracted without stopping it. (LevelDB ONLY)
+ * @param options.concurrency    The maximum number of Documents being written at once.
  * @param options.transformEntry A function that is called on every entry to transform it.
  */
 export async function extractPack(
@@ -134,9 +393,14 @@ export async function extractPack(
     yaml = false,
     yamlOptions = {},
     jsonOptions = {},
+    canonical = false,
+    sidecars = false,
+    layout = "document",
+    snapshot = false,
+    concurrency = 16,
     log = false,
-    ////documentType,
-    ////collection,
+    documentType,
+    collection,
     clean,
     folders,
     transformEntry,
@@ -144,28 +408,94 @@ export async function extractPack(
     transformFolderName,
   }: Partial<ExtractOptions> = {},
 ): Promise<void> {
-  if (nedb) throw new Error("NeDB files are obsolete and only Classic database level files are handled!")
-  ////if (!documentType) {
-  ////  throw new Error("The documentType option was undefined.")
-  ////}
-  ////collection ??= TYPE_COLLECTION_MAP[documentType]
+  if (nedb && path.extname(src) !== ".db") {
+    throw new Error("The nedb option was passed to extractPack, but the source pack does not have a .db extension.")
+  }
+  if (nedb) {
+    if (documentType) collection ??= TYPE_COLLECTION_MAP[documentType]
+    if (!collection) throw new Error("For NeDB operations, a documentType or collection must be provided.")
+  }
   if (clean) fse.rmSync(dest, { force: true, recursive: true, maxRetries: 10 })
   // Create the output directory if it doesn't exist already.
   fse.mkdirSync(dest, { recursive: true })
-  return extractClassicLevel(src, dest, {
+  if (nedb) {
+    return extractNedb(src, dest, {
+      yaml,
+      log,
+      yamlOptions,
+      jsonOptions,
+      canonical,
+      sidecars,
+      layout,
+      concurrency,
+      collection,
+      transformEntry,
+      transformName,
+    })
+  }
+  const snapshotPath = snapshot ? snapshotClassicLevel(src) : undefined
+  try {
+    return await extractClassicLevel(snapshotPath ?? src, dest, {
+      yaml,
+      log,
+      yamlOptions,
+      jsonOptions,
+      canonical,
+      sidecars,
+      layout,
+      concurrency,
+      folders,
+      transformEntry,
+      transformName,
+      transformFolderName,
+    })
+  } finally {
+    if (snapshotPath) fse.rmSync(snapshotPath, { force: true, recursive: true, maxRetries: 10 })
+  }
+}
+
+/**
+ * Extract a NeDB pack into individual source files for each primary Document.
+ * @param pack  The source compendium pack.
+ * @param dest  The root output directory.
+ * @param [options]
+ * @returns
+ */
+async function extractNedb(
+  pack: string,
+  dest: string,
+  {
     yaml,
-    log,
     yamlOptions,
     jsonOptions,
-    folders,
+    canonical,
+    sidecars,
+    layout,
+    concurrency = 16,
+    log,
+    collection,
     transformEntry,
     transformName,
-    transformFolderName,
-  })
+  }: Partial<ExtractOptions>,
+): Promise<void> {
+  const queue = createWriteQueue(concurrency)
+  // Iterate over all entries in the DB, writing them as source files.
+  for await (const { doc } of readNedb(pack, collection as string)) {
+    if ((await transformEntry?.(doc)) === false) continue
+    let name = await transformName?.(doc)
+    if (!name) name = `${doc.name ? `${getSafeFilename(doc.name)}_${doc._id}` : doc._id}.${yaml ? "yml" : "json"}`
+    const filename = path.join(dest, name)
+    await queue.add(
+      renderDocument(doc, filename, { yaml, yamlOptions, jsonOptions, canonical, sidecars, layout }),
+      log ? () => console.log(`Wrote ${pc.blue(name)}`) : undefined,
+    )
+  }
+  await queue.flush()
 }
 
 /**
- * Extract a LevelDB pack into individual source files for each primary Document.
+ * Extract a LevelDB pack into individual source files for each primary Document. Documents are written as they are
+ * read, so that only the Documents being written are held in memory.
  * @param pack  The source compendium pack.
  * @param dest  The root output directory.
  * @param [options]
@@ -178,6 +508,10 @@ async function extractClassicLevel(
     yaml,
     yamlOptions,
     jsonOptions,
+    canonical,
+    sidecars,
+    layout,
+    concurrency = 16,
     log,
     folders,
     transformEntry,
@@ -186,73 +520,628 @@ async function extractClassicLevel(
   }: Partial<ExtractOptions>,
 ): Promise<void> {
   // Load the directory as a ClassicLevel DB.
-  const db = new ClassicLevel<string, Document>(pack, { keyEncoding: "utf8", valueEncoding: "json" })
-  await db.open()
-  const foldersMap = new Map()
-  // Build up the folder structure
-  if (folders) {
-    for await (const [key, doc] of db.iterator()) {
-      if (!key.startsWith("!folders")) continue
-      let name = await transformFolderName?.(doc)
-      if (!name) name = doc.name ? `${getSafeFilename(doc.name)}_${doc._id}` : key
-      foldersMap.set(doc._id, { name, folder: doc.folder })
-    }
-    for (const folder of foldersMap.values()) {
-      let parent = foldersMap.get(folder.folder)
-      folder.path = folder.name
-      while (parent) {
-        folder.path = path.join(parent.name, folder.path)
-        parent = foldersMap.get(parent.folder)
+  const db = await openClassicLevel(pack)
+  // Close the DB even if an entry cannot be written, so that the pack is not left locked.
+  try {
+    const foldersMap = new Map()
+    // Build up the folder structure
+    if (folders) {
+      for await (const [key, doc] of db.iterator(getSublevelRange("folders"))) {
+        let name = await transformFolderName?.(doc)
+        if (!name) name = doc.name ? `${getSafeFilename(doc.name)}_${doc._id}` : key
+        foldersMap.set(doc._id, { name, folder: doc.folder })
+      }
+      for (const folder of foldersMap.values()) {
+        let parent = foldersMap.get(folder.folder)
+        folder.path = folder.name
+        while (parent) {
+          folder.path = path.join(parent.name, folder.path)
+          parent = foldersMap.get(parent.folder)
+        }
       }
     }
+
+    // Iterate over all entries in the DB, writing them as source files.
+    const queue = createWriteQueue(concurrency)
+    for await (const { source: key, doc } of readClassicLevel(db)) {
+      const [, , id] = key.split("!")
+      if ((await transformEntry?.(doc)) === false) continue
+      const folder = foldersMap?.get(doc.folder)?.path
+      let name = await transformName?.(doc, { folder })
+      if (!name) {
+        if (key.startsWith("!folders") && foldersMap?.has(doc._id)) {
+          const folder = foldersMap.get(doc._id)
+          name = path.join(folder.name, `_Folder.${yaml ? "yml" : "json"}`)
+        } else {
+          name = `${doc.name ? `${getSafeFilename(doc.name)}_${id}` : key}.${yaml ? "yml" : "json"}`
+        }
+        if (folder) name = path.join(folder, name)
+      }
+      const filename = path.join(dest, name)
+      await queue.add(
+        renderDocument(doc, filename, { yaml, yamlOptions, jsonOptions, canonical, sidecars, layout }),
+        log ? () => console.log(`Wrote ${pc.blue(name)}`) : undefined,
+      )
+    }
+    await queue.flush()
+  } finally {
+    await db.close()
+  }
+}
+
+/* -------------------------------------------- */
+/*  Converting                                  */
+/* -------------------------------------------- */
+
+/**
+ * Convert a compendium pack from one format to another, without writing intermediate source files to disk.
+ * The target is first written next to its final location and only moved into place once the conversion succeeded,
+ * so a failure in the middle of a conversion leaves any existing target untouched.
+ * @param src   The source compendium pack or source directory.
+ * @param dest  The target compendium pack or source directory.
+ * @param options
+ * @param options.from          The format of the source.
+ * @param options.to            The format of the target.
+ * @param options.documentType  For NeDB sources, the type of Document stored in the pack.
+ * @param options.collection    For NeDB sources, a collection can be provided instead of a document type.
+ * @param options.log           Whether to log operation progress to the console.
+ */
+export async function convertPack(
+  src: string,
+  dest: string,
+  { from, to, documentType, collection, log = false, ...options }: ConvertOptions,
+): Promise<void> {
+  if (from === to) throw new Error(`Cannot convert a pack from '${from}' to the same format.`)
+  if (from === "nedb" || to === "nedb") {
+    const nedbPath = from === "nedb" ? src : dest
+    if (path.extname(nedbPath) !== ".db") throw new Error(`The NeDB pack '${nedbPath}' does not have a .db extension.`)
+  }
+  if (from === "nedb") {
+    if (documentType) collection ??= TYPE_COLLECTION_MAP[documentType]
+    if (!collection) throw new Error("For NeDB operations, a documentType or collection must be provided.")
+  }
+
+  if (from === "source") {
+    await compilePack(src, dest, { ...options, log, nedb: to === "nedb" })
+    return
+  }
+  if (to === "source") {
+    return extractPack(src, dest, { ...options, log, nedb: from === "nedb", documentType, collection })
+  }
+
+  const tmp = `${dest}.converting`
+  fse.rmSync(tmp, { force: true, recursive: true })
+  try {
+    if (from === "nedb") {
+      await compileClassicLevel(tmp, readNedb(src, collection as string), { log })
+    } else {
+      const db = await openClassicLevel(src)
+      try {
+        await compileNedb(tmp, readClassicLevel(db), { log })
+      } finally {
+        await db.close()
+      }
+    }
+    fse.rmSync(dest, { force: true, recursive: true, maxRetries: 10 })
+    fse.renameSync(tmp, dest)
+  } catch (err) {
+    fse.rmSync(tmp, { force: true, recursive: true })
+    throw err
+  }
+}
+
+/* -------------------------------------------- */
+/*  Querying                                    */
+/* -------------------------------------------- */
+
+/**
+ * Open a LevelDB compendium pack to query and patch its Documents in place, without extracting and compiling it.
+ * Changes are staged until they are committed in a single atomic batch, and are visible to the queries meanwhile.
+ * @param pack The compendium pack.
+ * @returns The opened pack, to be closed by the caller.
+ * @throws {PackLockedError} If another process holds the lock of the pack.
+ */
+export async function openPack(pack: string): Promise<CompendiumPack> {
+  return new ClassicLevelPack(pack, await openClassicLevel(pack))
+}
+
+/** A LevelDB compendium pack with staged changes. */
+class ClassicLevelPack implements CompendiumPack {
+  /** The staged changes by key: the new value of the entry, or null to delete it. */
+  private readonly changes = new Map<string, Document | null>()
+
+  constructor(
+    readonly path: string,
+    private readonly db: ClassicLevel<string, Document>,
+  ) {}
+
+  async find<T extends Document = Document>(collection: string, predicate: (doc: T) => boolean = () => true) {
+    const range = getSublevelRange(collection)
+    const docs: T[] = []
+    for await (const [key, value] of this.db.iterator(range)) {
+      if (this.changes.has(key)) continue
+      const doc = { ...value, _key: key } as T
+      if (predicate(doc)) docs.push(doc)
+    }
+    for (const [key, value] of this.changes) {
+      if (!value || key <= range.gt || key >= range.lt) continue
+      const doc = { ...structuredClone(value), _key: key } as T
+      if (predicate(doc)) docs.push(doc)
+    }
+    return docs.sort((a, b) => ((a._key as string) < (b._key as string) ? -1 : 1))
+  }
+
+  async get<T extends Document = Document>(uuid: string) {
+    const key = await this.resolveKey(uuid)
+    const value = key ? await this.read(key) : undefined
+    return value ? ({ ...value, _key: key } as T) : undefined
+  }
+
+  async update<T extends Document = Document>(id: string, patch: Record<string, unknown>) {
+    const key = await this.resolveKey(id)
+    const value = key ? await this.read(key) : undefined
+    if (!key || !value) throw new Error(`No Document found for '${id}'.`)
+    // The embedded collections store the IDs of the embedded Documents, which are managed by their own keys.
+    const protectedFields = ["_id", "_key", ...Object.keys(HIERARCHY[getKeyCollection(key)] ?? {})]
+    for (const field of Object.keys(patch)) {
+      const name = field.split(".")[0].replace(/^-=/, "")
+      if (protectedFields.includes(name)) throw new Error(`The field '${name}' of '${key}' cannot be patched.`)
+    }
+    applyPatch(value as unknown as Record<string, unknown>, patch)
+    this.changes.set(key, value)
+    return { ...structuredClone(value), _key: key } as T
+  }
+
+  async delete(id: string) {
+    const key = await this.resolveKey(id)
+    if (!key || !(await this.read(key))) throw new Error(`No Document found for '${id}'.`)
+    const [, sublevel, idPath] = key.split("!")
+
+    // Delete the embedded Documents, whose keys start with the ID path of the Document in the nested sublevels.
+    const keys = [key]
+    const sublevels = new Set([
+      ...(await getSublevels(this.db)),
+      ...[...this.changes.keys()].map((k) => k.split("!")[1]),
+    ])
+    for (const embeddedSublevel of sublevels) {
+      if (!embeddedSublevel.startsWith(`${sublevel}.`)) continue
+      // '/' is the character following the '.' separator of IDs.
+      const range = { gt: `!${embeddedSublevel}!${idPath}.`, lt: `!${embeddedSublevel}!${idPath}/` }
+      for await (const embeddedKey of this.db.keys(range)) keys.push(embeddedKey)
+      for (const [embeddedKey, value] of this.changes) {
+        if (value && embeddedKey > range.gt && embeddedKey < range.lt) keys.push(embeddedKey)
+      }
+    }
+    for (const k of keys) this.changes.set(k, null)
+
+    // Remove the Document from the embedded collection of its parent.
+    if (sublevel.includes(".")) {
+      const parentKey = `!${sublevel.slice(0, sublevel.lastIndexOf("."))}!${idPath.slice(0, idPath.lastIndexOf("."))}`
+      const parent = (await this.read(parentKey)) as Record<string, unknown> | undefined
+      const collection = getKeyCollection(key)
+      const embeddedId = idPath.slice(idPath.lastIndexOf(".") + 1)
+      if (parent) {
+        const embeddedValue = parent[collection]
+        if (Array.isArray(embeddedValue)) parent[collection] = embeddedValue.filter((e) => e !== embeddedId)
+        else if (embeddedValue === embeddedId) parent[collection] = null
+        this.changes.set(parentKey, parent as unknown as Document)
+      }
+    }
+    return keys
+  }
+
+  async commit() {
+    const result: PackCommitResult = { updated: [], deleted: [] }
+    if (this.changes.size === 0) return result
+    const batch = this.db.batch()
+    for (const [key, value] of this.changes) {
+      if (value) {
+        batch.put(key, value)
+        result.updated.push(key)
+      } else {
+        batch.del(key)
+        result.deleted.push(key)
+      }
+    }
+    await batch.write()
+    this.changes.clear()
+    await compactClassicLevel(this.db)
+    // The content hashes of incremental compilations no longer match the pack.
+    fse.rmSync(getHashesPath(this.path), { force: true })
+    return result
+  }
+
+  async close() {
+    this.changes.clear()
+    await this.db.close()
+  }
+
+  /**
+   * Read the current value of an entry, staged changes included.
+   * @param key The key of the entry.
+   * @returns A copy of the value, if the entry exists.
+   */
+  private async read(key: string): Promise<Document | undefined> {
+    if (this.changes.has(key)) return structuredClone(this.changes.get(key) ?? undefined)
+    return (await this.db.get(key)) ?? undefined
+  }
+
+  /**
+   * Resolve the key of a Document from its key, its compendium UUID, e.g. "Compendium.<package>.<pack>.Actor.<id>",
+   * its relative UUID, e.g. "Actor.<id>.Item.<id>", or the ID of a primary Document.
+   * @param id The key, UUID or ID.
+   * @returns The key, if a primary Document with this ID exists.
+   */
+  private async resolveKey(id: string): Promise<string | undefined> {
+    if (id.startsWith("!")) return id
+    const parts = id.replace(/^Compendium\.[^.]+\.[^.]+\./, "").split(".")
+    if (parts.length === 1) {
+      // A bare ID, or the legacy "Compendium.<package>.<pack>.<id>" form, refers to a primary Document.
+      for (const sublevel of await getSublevels(this.db)) {
+        const key = `!${sublevel}!${parts[0]}`
+        if (!sublevel.includes(".") && (await this.read(key))) return key
+      }
+      return undefined
+    }
+    if (parts.length % 2 === 1) throw new Error(`'${id}' is not a valid Document UUID.`)
+
+    const collections: string[] = []
+    const ids: string[] = []
+    for (let i = 0; i < parts.length; i += 2) {
+      const type = parts[i]
+      const collection =
+        i === 0 ? TYPE_COLLECTION_MAP[type as DocumentType] : EMBEDDED_TYPE_COLLECTION_MAP[type as EmbeddedDocumentType]
+      if (!collection) throw new Error(`Unknown Document type '${type}' in '${id}'.`)
+      collections.push(collection)
+      ids.push(parts[i + 1])
+    }
+    return `!${collections.join(".")}!${ids.join(".")}`
+  }
+}
+
+/**
+ * Apply an update to a Document as Foundry VTT does: keys may be dotted paths, nested objects are merged, other
+ * values replace the existing ones, and a key prefixed with "-=" deletes the field.
+ * @param target The Document, updated in place.
+ * @param patch  The update.
+ * @throws {Error} If a key would reach the prototype of an object, e.g. "__proto__.polluted".
+ */
+function applyPatch(target: Record<string, unknown>, patch: Record<string, unknown>): void {
+  const isObject = (value: unknown): value is Record<string, unknown> =>
+    !!value && typeof value === "object" && !Array.isArray(value)
+  for (const [field, value] of Object.entries(patch)) {
+    const segments = field.split(".")
+    if (segments.some((segment) => UNSAFE_PATCH_SEGMENTS.includes(segment.replace(/^-=/, "")))) {
+      throw new Error(`The field '${field}' cannot be patched.`)
+    }
+    const last = segments.pop() as string
+    let parent = target
+    for (const segment of segments) {
+      if (!isObject(parent[segment])) parent[segment] = {}
+      parent = parent[segment] as Record<string, unknown>
+    }
+    if (last.startsWith("-=")) delete parent[last.slice(2)]
+    else if (isObject(value) && isObject(parent[last])) applyPatch(parent[last], value)
+    else parent[last] = structuredClone(value)
+  }
+}
+
+/**
+ * Transform every primary Document of a compendium pack, with its embedded Documents resolved, and write the changed
+ * Documents back. The changes of LevelDB packs are written in a single atomic batch once every Document was
+ * transformed, replacing the entries of the embedded Documents which were removed or re-identified.
+ * @param pack      The compendium pack.
+ * @param transform A function modifying a Document in place, or returning false to delete it.
+ * @param [options]
+ * @param options.nedb         Whether the pack is a NeDB database, otherwise a LevelDB database is assumed.
+ * @param options.documentType For NeDB packs, the type of Document stored in the pack.
+ * @param options.collection   For NeDB packs, the collection can be provided instead of the type of Document.
+ * @param options.dryRun       Whether to only transform the Documents, without writing anything to the pack.
+ */
+export async function transformPack(
+  pack: string,
+  transform: (doc: Document) => Promise<boolean | void>,
+  {
+    nedb = false,
+    documentType,
+    collection,
+    dryRun = false,
+  }: Partial<Pick<ExtractOptions, "nedb" | "documentType" | "collection"> & Pick<CompileOptions, "dryRun">> = {},
+): Promise<void> {
+  if (nedb) {
+    const entries: SourceEntry[] = []
+    let changed = false
+    for await (const entry of readPack(pack, { nedb, documentType, collection })) {
+      const before = JSON.stringify(entry.doc)
+      const keep = (await transform(entry.doc)) !== false
+      changed ||= !keep || JSON.stringify(entry.doc) !== before
+      if (keep) entries.push(entry)
+    }
+    if (changed && !dryRun) await compileNedb(pack, toAsyncIterable(entries))
+    return
+  }
+
+  // Opening a LevelDB pack writes to it, so a dry run works on a copy of the pack.
+  const snapshotPath = dryRun ? snapshotClassicLevel(pack) : undefined
+  const db = await openClassicLevel(snapshotPath ?? pack)
+  try {
+    const batch = db.batch()
+    let changed = false
+    const getEntries = (doc: Document) => {
+      const entries = new Map<string, Record<string, unknown>>()
+      const record = doc as unknown as Record<string, unknown>
+      walkHierarchy(record, getPrimaryContext(record), (d, ctx) => {
+        // Embedded collections are stored as the IDs of the embedded Documents.
+        const value = { ...d }
+        delete value._key
+        for (const [embeddedCollectionName, type] of Object.entries(HIERARCHY[ctx.collection] ?? {})) {
+          const embeddedValue = d[embeddedCollectionName]
+          if (Array.isArray(type)) {
+            value[embeddedCollectionName] = Array.isArray(embeddedValue) ? embeddedValue.map(({ _id }) => _id) : []
+          } else value[embeddedCollectionName] = (embeddedValue as Document | null | undefined)?._id ?? null
+        }
+        entries.set(`!${ctx.sublevel}!${ctx.idPath}`, value)
+      })
+      return entries
+    }
+
+    for await (const { doc } of readClassicLevel(db)) {
+      const before = JSON.stringify(doc)
+      const previousKeys = [...getEntries(doc).keys()]
+      const keep = (await transform(doc)) !== false
+      if (keep && JSON.stringify(doc) === before) continue
+      changed = true
+      const entries = keep ? getEntries(doc) : new Map()
+      for (const key of previousKeys) if (!entries.has(key)) batch.del(key)
+      for (const [key, value] of entries) batch.put(key, value as unknown as Document)
+    }
+
+    if (dryRun || !changed) await batch.close()
+    else {
+      await batch.write()
+      await compactClassicLevel(db)
+      // The content hashes of incremental compilations no longer match the pack.
+      fse.rmSync(getHashesPath(pack), { force: true })
+    }
+  } finally {
+    await db.close()
+    if (snapshotPath) fse.rmSync(snapshotPath, { force: true, recursive: true, maxRetries: 10 })
+  }
+}
+
+/* -------------------------------------------- */
+/*  Utilities                                   */
+/* -------------------------------------------- */
+
+/**
+ * Read and parse a set of source files.
+ * @param files  The source files.
+ * @param [options]
+ * @param options.log  Whether to log failures to the console.
+ */
+export async function* readSourceFiles(
+  files: string[],
+  { log }: Partial<PackageOptions> = {},
+): AsyncGenerator<SourceEntry> {
+  for (const file of files) {
+    let doc: Document
+    try {
+      doc = readSourceFile(file)
+    } catch (err) {
+      if (log) console.error(`Failed to read ${pc.red(file)}. See error below.`)
+      throw new Error(`Failed to read ${file}: ${err instanceof Error ? err.message : err}`, { cause: err })
+    }
+    yield { source: file, doc }
+  }
+}
+
+/**
+ * Get the `_key` of a primary source document.
+ * @param doc The source document.
+ * @returns The key.
+ * @throws If the key is missing.
+ */
+function getSourceKey(doc: Document): string {
+  if (typeof doc._key !== "string") throw new Error("The entry has no _key, use the normalize option to generate it.")
+  return doc._key
+}
+
+/**
+ * Wrap already read entries into an asynchronous iterable.
+ * @param entries The entries.
+ */
+async function* toAsyncIterable(entries: SourceEntry[]): AsyncGenerator<SourceEntry> {
+  yield* entries
+}
+
+/**
+ * Load the primary Documents of a NeDB pack without modifying it. NeDB compacts the file of a datastore whenever it
+ * loads it, so a copy of the pack is loaded instead.
+ * @param pack The NeDB pack.
+ * @returns The primary Documents.
+ */
+async function loadNedb(pack: string): Promise<Document[]> {
+  if (!fse.existsSync(pack)) throw new Error(`The pack ${pack} does not exist.`)
+  const copyPath = fse.mkdtempSync(path.join(os.tmpdir(), "fvtt-pack-"))
+  try {
+    const filename = path.join(copyPath, path.basename(pack))
+    fse.copyFileSync(pack, filename)
+    return await Datastore.create({ filename, autoload: true }).find<Document>({})
+  } finally {
+    fse.rmSync(copyPath, { force: true, recursive: true, maxRetries: 10 })
   }
+}
 
+/**
+ * Read every primary Document of a NeDB pack, with the `_key` of each Document of its hierarchy restored.
+ * @param pack        The NeDB pack.
+ * @param collection  The collection of the Documents stored in the pack.
+ */
+async function* readNedb(pack: string, collection: string): AsyncGenerator<SourceEntry> {
+  const docs = await loadNedb(pack)
   const unpackDoc = applyHierarchy(async (doc: Document, collection: string, options: unknown = {}) => {
     const { sublevelPrefix, idPrefix } = options as { sublevelPrefix: string; idPrefix: string }
     const sublevel = keyJoin(sublevelPrefix, collection)
     const id = keyJoin(idPrefix, doc._id)
     doc._key = `!${sublevel}!${id}`
-    await mapHierarchy(doc, collection, (embeddedId, embeddedCollectionName) => {
-      return db.get(`!${sublevel}.${embeddedCollectionName}!${id}.${embeddedId}`)
-    })
     return { sublevelPrefix: sublevel, idPrefix: id }
   })
 
-  // Iterate over all entries in the DB, writing them as source files.
-  for await (const [key, doc] of db.iterator()) {
-    const [, collection, id] = key.split("!")
-    if (collection.includes(".")) continue // This is not a primary document, skip it.
+  for (const doc of docs) {
     await unpackDoc(doc, collection)
-    if ((await transformEntry?.(doc)) === false) continue
-    const folder = foldersMap?.get(doc.folder)?.path
-    let name = await transformName?.(doc, { folder })
-    if (!name) {
-      if (key.startsWith("!folders") && foldersMap?.has(doc._id)) {
-        const folder = foldersMap.get(doc._id)
-        name = path.join(folder.name, `_Folder.${yaml ? "yml" : "json"}`)
-      } else {
-        name = `${doc.name ? `${getSafeFilename(doc.name)}_${id}` : key}.${yaml ? "yml" : "json"}`
+    yield { source: doc._key as string, doc }
+  }
+}
+
+/**
+ * Read every primary Document of a compendium pack, with its embedded Documents resolved, as `extractPack` does.
+ * @param pack  The compendium pack.
+ * @param [options]
+ * @param options.nedb         Whether the pack is a NeDB database, otherwise a LevelDB database is assumed.
+ * @param options.documentType For NeDB packs, the type of Document stored in the pack.
+ * @param options.collection   For NeDB packs, the collection can be provided instead of the type of Document.
+ */
+export async function* readPack(
+  pack: string,
+  {
+    nedb = false,
+    documentType,
+    collection,
+  }: Partial<Pick<ExtractOptions, "nedb" | "documentType" | "collection">> = {},
+): AsyncGenerator<SourceEntry> {
+  if (nedb) {
+    if (documentType) collection ??= TYPE_COLLECTION_MAP[documentType]
+    if (!collection) throw new Error("For NeDB operations, a documentType or collection must be provided.")
+    yield* readNedb(pack, collection)
+    return
+  }
+  const db = await openClassicLevel(pack)
+  try {
+    yield* readClassicLevel(db)
+  } finally {
+    await db.close()
+  }
+}
+
+/**
+ * Read every primary Document of an opened LevelDB pack, with its embedded Documents resolved.
+ * Each sublevel is read in a single ordered pass: the keys of embedded Documents start with the ID of their primary
+ * Document, so the entries of each embedded sublevel are consumed alongside the primary Documents they belong to,
+ * instead of being fetched one by one. Embedded entries without a primary Document are skipped.
+ * @param db  The LevelDB pack.
+ */
+async function* readClassicLevel(db: ClassicLevel<string, Document>): AsyncGenerator<SourceEntry> {
+  let embeddedDocs = new Map<string, Document>()
+  const unpackDoc = applyHierarchy(async (doc: Document, collection: string, options: unknown = {}) => {
+    const { sublevelPrefix, idPrefix } = options as { sublevelPrefix: string; idPrefix: string }
+    const sublevel = keyJoin(sublevelPrefix, collection)
+    const id = keyJoin(idPrefix, doc._id)
+    doc._key = `!${sublevel}!${id}`
+    await mapHierarchy(doc, collection, async (embeddedId, embeddedCollectionName) => {
+      const embeddedKey = `!${sublevel}.${embeddedCollectionName}!${id}.${embeddedId}`
+      // The cursors skip the embedded entries ordered before those of the previous Document, which happens when its
+      // ID is a prefix of this one followed by a character ordered before ".", e.g. "abc-1" after "abc".
+      return embeddedDocs.get(embeddedKey) ?? (await db.get(embeddedKey))
+    })
+    return { sublevelPrefix: sublevel, idPrefix: id }
+  })
+
+  const sublevels = await getSublevels(db)
+  for (const collection of sublevels.filter((sublevel) => !sublevel.includes("."))) {
+    const cursors = sublevels
+      .filter((sublevel) => sublevel.startsWith(`${collection}.`))
+      .map((sublevel) => new SublevelCursor(db, sublevel))
+    try {
+      for await (const [key, doc] of db.iterator(getSublevelRange(collection))) {
+        const [, , id] = key.split("!")
+        embeddedDocs = new Map()
+        for (const cursor of cursors) {
+          for (const [embeddedKey, embeddedDoc] of await cursor.take(`${id}.`))
+            embeddedDocs.set(embeddedKey, embeddedDoc)
+        }
+        await unpackDoc(doc, collection)
+        yield { source: key, doc }
       }
-      if (folder) name = path.join(folder, name)
+    } finally {
+      await Promise.all(cursors.map((cursor) => cursor.close()))
     }
-    const filename = path.join(dest, name)
-    serializeDocument(doc, filename, { yaml, yamlOptions, jsonOptions })
-    if (log) console.log(`Wrote ${pc.blue(name)}`)
   }
+}
+
+/**
+ * List the sublevels of a LevelDB pack, e.g. "actors" or "actors.items", in key order, by seeking past each of them.
+ * Keys outside of any sublevel are skipped.
+ * @param db  The LevelDB pack.
+ * @returns The sublevels.
+ */
+async function getSublevels(db: ClassicLevel<string, Document>): Promise<string[]> {
+  const sublevels: string[] = []
+  const keys = db.keys()
+  try {
+    for (let key = await keys.next(); key !== undefined; key = await keys.next()) {
+      const sublevel = key.match(/^!([^!]+)!/)?.[1]
+      if (sublevel === undefined) continue
+      sublevels.push(sublevel)
+      // Only ever seek forward, so that the iteration always ends.
+      const { lt } = getSublevelRange(sublevel)
+      if (lt > key) keys.seek(lt)
+    }
+  } finally {
+    await keys.close()
+  }
+  return sublevels
+}
 
-  await db.close()
+/**
+ * Get the range of the keys of a sublevel.
+ * @param sublevel  The sublevel, e.g. "actors" or "actors.items".
+ * @returns The range, for LevelDB iterators.
+ */
+function getSublevelRange(sublevel: string): { gt: string; lt: string } {
+  // '"' is the character following the '!' separator, so that the range ends right after the sublevel.
+  return { gt: `!${sublevel}!`, lt: `!${sublevel}"` }
 }
 
-/* -------------------------------------------- */
-/*  Utilities                                   */
-/* -------------------------------------------- */
+/** An ordered pass over the entries of a sublevel, consumed in order of the IDs their keys start with. */
+class SublevelCursor {
+  private readonly iterator: { next(): Promise<[string, Document] | undefined>; close(): Promise<void> }
+  private readonly prefix: string
+  private head: [string, Document] | undefined | null = null
+
+  constructor(db: ClassicLevel<string, Document>, sublevel: string) {
+    this.iterator = db.iterator(getSublevelRange(sublevel))
+    this.prefix = `!${sublevel}!`
+  }
+
+  /**
+   * Consume the entries whose ID starts with a prefix, skipping the entries ordered before it. The skipped entries
+   * are not necessarily orphans, so they must be looked up by key when missing.
+   * @param idPrefix  The prefix of the IDs, e.g. the ID of a primary Document followed by a dot.
+   * @returns The entries.
+   */
+  async take(idPrefix: string): Promise<[string, Document][]> {
+    const entries: [string, Document][] = []
+    const keyPrefix = this.prefix + idPrefix
+    if (this.head === null) this.head = await this.iterator.next()
+    while (this.head && (this.head[0] < keyPrefix || this.head[0].startsWith(keyPrefix))) {
+      if (this.head[0].startsWith(keyPrefix)) entries.push(this.head)
+      this.head = await this.iterator.next()
+    }
+    return entries
+  }
+
+  /** Release the iterator. */
+  async close(): Promise<void> {
+    await this.iterator.close()
+  }
+}
 
 /**
  * Wrap a function so that it can be applied recursively to a Document's hierarchy.
  * @param fn  The function to wrap.
  * @returns The wrapped function.
  */
-function applyHierarchy(fn: HierarchyApplyCallback): HierarchyApplyCallback {
+export function applyHierarchy(fn: HierarchyApplyCallback): HierarchyApplyCallback {
   const apply = async (doc: Document, collection: string, options: unknown = {}) => {
     const newOptions = (await fn(doc, collection, options)) as Document
     for (const [embeddedCollectionName, type] of Object.entries(HIERARCHY[collection] ?? {})) {
@@ -267,6 +1156,45 @@ function applyHierarchy(fn: HierarchyApplyCallback): HierarchyApplyCallback {
   return apply
 }
 
+/**
+ * Synchronously call a function on a source document and each of its embedded documents, following the Document
+ * hierarchy. Unlike `applyHierarchy`, malformed embedded values are skipped instead of being traversed.
+ * @param doc The source document.
+ * @param ctx Where the document stands in the Document hierarchy.
+ * @param fn  The function to call.
+ */
+export function walkHierarchy(
+  doc: Record<string, unknown>,
+  ctx: HierarchyContext,
+  fn: (doc: Record<string, unknown>, ctx: HierarchyContext) => void,
+): void {
+  fn(doc, ctx)
+  for (const [embeddedCollectionName, type] of Object.entries(HIERARCHY[ctx.collection] ?? {})) {
+    const embeddedValue = doc[embeddedCollectionName]
+    const embeddedDocs = Array.isArray(type) && Array.isArray(embeddedValue) ? embeddedValue : [embeddedValue]
+    for (const embeddedDoc of embeddedDocs) {
+      if (!embeddedDoc || typeof embeddedDoc !== "object" || Array.isArray(embeddedDoc)) continue
+      const embeddedCtx = {
+        collection: embeddedCollectionName,
+        sublevel: `${ctx.sublevel}.${embeddedCollectionName}`,
+        idPath: `${ctx.idPath}.${embeddedDoc._id}`,
+        primary: false,
+      }
+      walkHierarchy(embeddedDoc, embeddedCtx, fn)
+    }
+  }
+}
+
+/**
+ * Get the hierarchy context of a primary source document from its `_key`.
+ * @param doc The primary source document.
+ * @returns The context of the document.
+ */
+export function getPrimaryContext(doc: Record<string, unknown>): HierarchyContext {
+  const [, collection = "", id = ""] = typeof doc._key === "string" ? doc._key.split("!") : []
+  return { collection, sublevel: collection, idPath: id, primary: true }
+}
+
 /**
  * Transform a Document's embedded collections by applying a function to them.
  * @param {object} doc               The Document being operated on.
@@ -297,12 +1225,18 @@ async function mapHierarchy(doc, collection, fn) {
  * @param options
  * @returns
  */
-function findSourceFiles(root: string, { yaml = false, recursive = false }: Partial<CompileOptions> = {}): string[] {
+export function findSourceFiles(
+  root: string,
+  { yaml = false, recursive = false }: Partial<CompileOptions> = {},
+): string[] {
   const files: string[] = []
   for (const entry of fse.readdirSync(root, { withFileTypes: true })) {
     const name = path.join(root, entry.name)
-    if (entry.isDirectory() && recursive) {
-      files.push(...findSourceFiles(name, { yaml, recursive }))
+    if (entry.isDirectory()) {
+      // A directory holding a Document file is a Document written with the "directory" layout.
+      const documentFile = findDirectoryDocumentFile(name, { yaml })
+      if (documentFile) files.push(documentFile)
+      else if (recursive) files.push(...findSourceFiles(name, { yaml, recursive }))
       continue
     }
     if (!entry.isFile()) continue
@@ -314,6 +1248,97 @@ function findSourceFiles(root: string, { yaml = false, recursive = false }: Part
   return files
 }
 
+/**
+ * Locate the Document file of a directory written with the "directory" layout.
+ * @param dirname The directory.
+ * @param [options]
+ * @param options.yaml Whether the source files are in YAML format, otherwise JSON is assumed.
+ * @returns The Document file, if the directory holds one.
+ */
+function findDirectoryDocumentFile(dirname: string, { yaml = false }: { yaml?: boolean } = {}): string | undefined {
+  return (yaml ? [".yml", ".yaml"] : [".json"])
+    .map((ext) => path.join(dirname, `${DIRECTORY_DOCUMENT_NAME}${ext}`))
+    .find((file) => fse.existsSync(file))
+}
+
+/**
+ * Parse a source file. A Document file written with the "directory" layout is reassembled with the embedded
+ * Documents stored in the subdirectories named after their embedded collections.
+ * @param file The source file.
+ * @returns The Document.
+ */
+function readSourceFile(file: string): Document {
+  const contents = fse.readFileSync(file, "utf8")
+  const ext = path.extname(file)
+  const isYaml = ext === ".yml" || ext === ".yaml"
+  const doc = (isYaml ? YAML.load(contents) : JSON.parse(contents)) as Document
+  if (path.basename(file, ext) !== DIRECTORY_DOCUMENT_NAME) return doc
+
+  const dirname = path.dirname(file)
+  for (const [embeddedCollectionName, type] of Object.entries(HIERARCHY[getKeyCollection(doc._key)] ?? {})) {
+    // Embedded collections are written as the list of their IDs, to preserve their order.
+    const value = doc[embeddedCollectionName]
+    const ids = Array.isArray(type) ? value : value ? [value] : []
+    if (!Array.isArray(ids) || !ids.every((id) => typeof id === "string")) continue
+
+    const embeddedDocs = new Map<string, Document>()
+    const embeddedDirname = path.join(dirname, embeddedCollectionName)
+    for (const entry of fse.existsSync(embeddedDirname)
+      ? fse.readdirSync(embeddedDirname, { withFileTypes: true })
+      : []) {
+      const name = path.join(embeddedDirname, entry.name)
+      const embeddedFile = entry.isDirectory() ? findDirectoryDocumentFile(name, { yaml: isYaml }) : name
+      if (!embeddedFile || ![".json", ".yml", ".yaml"].includes(path.extname(embeddedFile))) continue
+      const embeddedDoc = readSourceFile(embeddedFile)
+      embeddedDocs.set(embeddedDoc._id, rebaseSidecars(embeddedDoc, path.dirname(embeddedFile), dirname))
+    }
+    const resolved = ids.map((id) => {
+      const embeddedDoc = embeddedDocs.get(id)
+      if (!embeddedDoc) throw new Error(`The embedded document '${id}' was not found in ${embeddedDirname}.`)
+      return embeddedDoc
+    })
+    doc[embeddedCollectionName] = Array.isArray(type) ? resolved : (resolved[0] ?? null)
+  }
+  return doc
+}
+
+/**
+ * Get the collection of a (embedded) Document from its key, e.g. "items" for "!actors.items!<actorId>.<itemId>".
+ * @param key The key.
+ * @returns The collection.
+ */
+function getKeyCollection(key: string | undefined): string {
+  return (key?.split("!")[1] ?? "").split(".").pop() as string
+}
+
+/**
+ * Deeply compare two JSON values, regardless of the order of object keys.
+ * @param a The first value.
+ * @param b The second value.
+ * @returns Whether both values are equal.
+ */
+function isDeepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) return false
+  if (Array.isArray(a) !== Array.isArray(b)) return false
+  const aKeys = Object.keys(a)
+  const bKeys = Object.keys(b)
+  if (aKeys.length !== bKeys.length) return false
+  return aKeys.every(
+    (key) =>
+      Object.hasOwn(b, key) && isDeepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]),
+  )
+}
+
+/**
+ * Compute the content hash of a Document, as stored in a pack.
+ * @param doc The Document.
+ * @returns The hexadecimal SHA-1 hash.
+ */
+function hashDocument(doc: object): string {
+  return createHash("sha1").update(JSON.stringify(doc)).digest("hex")
+}
+
 /**
  * Ensure a string is safe for use as a filename.
  * @param filename         The filename to sanitize
@@ -331,32 +1356,341 @@ function keyJoin(...args: string[]): string {
   return args.filter((_) => _).join(".")
 }
 
+/**
+ * Make a canonical copy of a Document: volatile fields of every (embedded) Document are stripped or normalized,
+ * numbers are rounded to remove floating-point noise and object keys are sorted.
+ * @param doc  The primary Document.
+ * @param [options]
+ * @returns The canonical copy.
+ */
+function canonicalizeDocument(
+  doc: Record<string, unknown>,
+  {
+    strip = ["_stats.modifiedTime", "_stats.lastModifiedBy"],
+    normalize = {},
+    precision = 15,
+  }: Partial<CanonicalOptions> = {},
+): Record<string, unknown> {
+  const copy = structuredClone(doc)
+  walkHierarchy(copy, getPrimaryContext(copy), (d) => {
+    for (const fieldPath of strip) setField(d, fieldPath, undefined)
+    for (const [fieldPath, value] of Object.entries(normalize)) setField(d, fieldPath, value)
+  })
+  return canonicalizeValue(copy) as Record<string, unknown>
+
+  function setField(target: Record<string, unknown>, fieldPath: string, value: unknown): void {
+    const parts = fieldPath.split(".")
+    const last = parts.pop() as string
+    for (const part of parts) {
+      const next = target[part]
+      if (!next || typeof next !== "object") return
+      target = next as Record<string, unknown>
+    }
+    if (!(last in target)) return
+    if (value === undefined) delete target[last]
+    else target[last] = value
+  }
+
+  function canonicalizeValue(value: unknown): unknown {
+    if (typeof value === "number") return Number.isInteger(value) ? value : Number(value.toPrecision(precision))
+    if (Array.isArray(value)) return value.map(canonicalizeValue)
+    if (!value || typeof value !== "object") return value
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [key, canonicalizeValue((value as Record<string, unknown>)[key])]),
+    )
+  }
+}
+
+/**
+ * Write the large embedded content of a Document to sidecar files next to it, and replace each of them with a
+ * reference to its sidecar file. The previous sidecar files of the Document which are not rewritten are removed, so
+ * that the sidecars of renamed or deleted pages do not linger.
+ * @param doc       The primary Document.
+ * @param filename  The filename the Document is written to.
+ * @param files     The files to write, the sidecar files are added to.
+ * @returns A copy of the Document referencing its sidecar files.
+ */
+function writeSidecars(doc: Record<string, unknown>, filename: string, files: OutputFile[]): Record<string, unknown> {
+  const copy = structuredClone(doc)
+  const dirname = path.dirname(filename)
+  const basename = path.basename(filename, path.extname(filename))
+  const sidecarNames = new Set<string>()
+
+  const writeSidecar = (target: Record<string, unknown>, field: string, sidecarName: string) => {
+    const value = target[field]
+    if (typeof value !== "string" || value === "") return
+    files.push([path.join(dirname, sidecarName), value])
+    sidecarNames.add(sidecarName)
+    target[field] = { [SIDECAR_KEY]: sidecarName }
+  }
+
+  const primaryCtx = getPrimaryContext(copy)
+  walkHierarchy(copy, primaryCtx, (d, ctx) => {
+    if (ctx.primary && ctx.collection === "macros" && d.type === "script") {
+      writeSidecar(d, "command", `${basename}.js`)
+    } else if (ctx.sublevel === "journal.pages" && d.text && typeof d.text === "object") {
+      // A page written on its own by the "directory" layout already has a file named after it.
+      const pageName = ctx.primary
+        ? basename
+        : `${basename}.${d.name ? `${getSafeFilename(d.name as string)}_` : ""}${d._id}`
+      writeSidecar(d.text as Record<string, unknown>, "content", `${pageName}.html`)
+      writeSidecar(d.text as Record<string, unknown>, "markdown", `${pageName}.md`)
+    }
+  })
+
+  if (SIDECAR_COLLECTIONS.includes(primaryCtx.collection) && fse.existsSync(dirname)) {
+    for (const name of fse.readdirSync(dirname)) {
+      const isSidecar = name.startsWith(`${basename}.`) && SIDECAR_EXTENSIONS.includes(path.extname(name))
+      if (isSidecar && !sidecarNames.has(name)) files.push([path.join(dirname, name), null])
+    }
+  }
+  return copy
+}
+
+/**
+ * Replace the references to sidecar files of source entries with the content of these files.
+ * @param entries The source entries.
+ */
+export async function* inlineSidecars(entries: AsyncIterable<SourceEntry>): AsyncGenerator<SourceEntry> {
+  for await (const entry of entries) yield inlineEntrySidecars(entry)
+}
+
+/**
+ * Replace the references to sidecar files of a source entry with the content of these files.
+ * @param entry The source entry, modified in place.
+ * @returns The source entry.
+ */
+export function inlineEntrySidecars(entry: SourceEntry): SourceEntry {
+  const dirname = path.dirname(entry.source)
+  const inline = (value: unknown): unknown => {
+    if (!value || typeof value !== "object") return value
+    if (Array.isArray(value)) return value.map(inline)
+    const sidecarName = (value as Record<string, unknown>)[SIDECAR_KEY]
+    if (typeof sidecarName === "string") return fse.readFileSync(resolveSidecarPath(dirname, sidecarName), "utf8")
+    for (const [key, nested] of Object.entries(value)) (value as Record<string, unknown>)[key] = inline(nested)
+    return value
+  }
+  inline(entry.doc)
+  return entry
+}
+
+/**
+ * Resolve the path of a sidecar file, which must be inside the directory of its Document so that a source file cannot
+ * reference any other file on disk.
+ * @param dirname     The directory of the Document.
+ * @param sidecarName The sidecar filename, relative to the directory.
+ * @returns The path of the sidecar file.
+ * @throws {Error} If the sidecar file is outside of the directory.
+ */
+function resolveSidecarPath(dirname: string, sidecarName: string): string {
+  const file = path.resolve(dirname, sidecarName)
+  const relative = path.relative(dirname, file)
+  if (relative === "" || relative === ".." || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+    throw new Error(`The sidecar file '${sidecarName}' is outside of the directory ${dirname}.`)
+  }
+  return file
+}
+
+/**
+ * Find the sidecar files referenced by a source entry.
+ * @param entry The source entry.
+ * @returns The paths of the sidecar files.
+ */
+export function findEntrySidecars(entry: SourceEntry): string[] {
+  const dirname = path.dirname(entry.source)
+  const files: string[] = []
+  const find = (value: unknown) => {
+    if (!value || typeof value !== "object") return
+    const sidecarName = (value as Record<string, unknown>)[SIDECAR_KEY]
+    if (typeof sidecarName === "string") files.push(resolveSidecarPath(dirname, sidecarName))
+    else for (const nested of Object.values(value)) find(nested)
+  }
+  find(entry.doc)
+  return files
+}
+
+/**
+ * Serialize a Document with the "directory" layout: the Document becomes a directory holding a Document file, in
+ * which its embedded collections are replaced by the list of their IDs, and one subdirectory per embedded collection
+ * holding one file per embedded Document. Embedded Documents with embedded Documents of their own become directories
+ * in turn, while Documents without any embedded collection are written as a single file.
+ * @param doc       The Document.
+ * @param filename  The filename the Document would be written to with the "document" layout.
+ * @param options   Options to configure serialization behavior.
+ * @param files     The files to write, the files of the Document are added to.
+ * @param sidecarsDirname The directory the sidecar files of an embedded Document are currently relative to.
+ */
+function renderDocumentDirectory(
+  doc: Document,
+  filename: string,
+  options: Partial<ExtractOptions>,
+  files: OutputFile[],
+  sidecarsDirname?: string,
+): void {
+  const hierarchy = Object.entries(HIERARCHY[getKeyCollection(doc._key)] ?? {})
+  const hasEmbeddedDocs = hierarchy.some(([name]) => [doc[name] ?? []].flat().length > 0)
+  if (hierarchy.length === 0 || (sidecarsDirname && !hasEmbeddedDocs)) {
+    if (sidecarsDirname) doc = rebaseSidecars(doc, sidecarsDirname, path.dirname(filename))
+    renderDocument(doc, filename, options, files)
+    return
+  }
+
+  const ext = path.extname(filename)
+  const dirname =
+    path.basename(filename, ext) === DIRECTORY_DOCUMENT_NAME ? path.dirname(filename) : filename.slice(0, -ext.length)
+  const copy: Document = sidecarsDirname ? rebaseSidecars(doc, sidecarsDirname, dirname) : { ...doc }
+  for (const [embeddedCollectionName, type] of hierarchy) {
+    const embeddedValue = copy[embeddedCollectionName]
+    const embeddedDocs =
+      Array.isArray(type) && Array.isArray(embeddedValue) ? embeddedValue : embeddedValue ? [embeddedValue] : []
+    for (const embeddedDoc of embeddedDocs as Document[]) {
+      const name = `${embeddedDoc.name ? `${getSafeFilename(embeddedDoc.name)}_` : ""}${embeddedDoc._id}${ext}`
+      renderDocumentDirectory(embeddedDoc, path.join(dirname, embeddedCollectionName, name), options, files, dirname)
+    }
+    const ids = embeddedDocs.map((embeddedDoc: Document) => embeddedDoc._id)
+    copy[embeddedCollectionName] = Array.isArray(type) ? ids : (ids[0] ?? null)
+  }
+  renderDocument(copy, path.join(dirname, `${DIRECTORY_DOCUMENT_NAME}${ext}`), options, files)
+}
+
+/**
+ * Make the sidecar filenames of a Document relative to another directory, for the embedded Documents of the
+ * "directory" layout whose sidecar files live next to their own file.
+ * @param doc  The Document.
+ * @param from The directory the sidecar filenames are relative to.
+ * @param to   The directory the sidecar filenames should be relative to.
+ * @returns A copy of the Document.
+ */
+function rebaseSidecars(doc: Document, from: string, to: string): Document {
+  const rebase = (value: unknown): unknown => {
+    if (!value || typeof value !== "object") return value
+    if (Array.isArray(value)) return value.map(rebase)
+    const sidecarName = (value as Record<string, unknown>)[SIDECAR_KEY]
+    if (typeof sidecarName === "string") {
+      return { [SIDECAR_KEY]: path.relative(to, path.resolve(from, sidecarName)).split(path.sep).join("/") }
+    }
+    return Object.fromEntries(Object.entries(value).map(([key, nested]) => [key, rebase(nested)]))
+  }
+  return rebase(doc) as Document
+}
+
 /**
  * Serialize a Document and write it to the filesystem.
  * @param doc        The Document to serialize.
  * @param filename   The filename to write it to.
  * @param [options]  Options to configure serialization behavior.
  */
-function serializeDocument(
+export function serializeDocument(doc: object, filename: string, options: Partial<ExtractOptions> = {}) {
+  for (const [file, content] of renderDocument(doc, filename, options)) {
+    if (content === null) {
+      fse.rmSync(file, { force: true })
+      continue
+    }
+    fse.mkdirSync(path.dirname(file), { recursive: true })
+    fse.writeFileSync(file, content)
+  }
+}
+
+/**
+ * Serialize a Document into the files to write, without writing anything.
+ * @param doc        The Document to serialize.
+ * @param filename   The filename to write it to.
+ * @param [options]  Options to configure serialization behavior.
+ * @param [files]    The files to write, the files of the Document are added to.
+ * @returns The files to write.
+ */
+function renderDocument(
   doc: object,
   filename: string,
-  { yaml, yamlOptions = {}, jsonOptions = {} }: Partial<ExtractOptions> = {},
-) {
-  fse.mkdirSync(path.dirname(filename), { recursive: true })
+  {
+    yaml,
+    yamlOptions = {},
+    jsonOptions = {},
+    canonical = false,
+    sidecars = false,
+    layout,
+  }: Partial<ExtractOptions> = {},
+  files: OutputFile[] = [],
+): OutputFile[] {
+  if (layout === "directory") {
+    const options = { yaml, yamlOptions, jsonOptions, canonical, sidecars }
+    renderDocumentDirectory(doc as Document, filename, options, files)
+    return files
+  }
+  if (canonical) doc = canonicalizeDocument(doc as Record<string, unknown>, canonical === true ? {} : canonical)
+  if (sidecars) doc = writeSidecars(doc as Record<string, unknown>, filename, files)
   const serialized = (() => {
-    if (yaml) return YAML.dump(doc, yamlOptions)
+    if (yaml) return YAML.dump(doc, canonical ? { noRefs: true, lineWidth: -1, ...yamlOptions } : yamlOptions)
     else {
       const { replacer = null, space = 2 } = jsonOptions
       return JSON.stringify(doc, replacer as JSONReplacer, space) + "\n"
     }
   })()
-  fse.writeFileSync(filename, serialized)
+  files.push([filename, serialized])
+  return files
+}
+
+/**
+ * Create a queue writing the files of extracted Documents in the background, with a bounded number of Documents
+ * being written at once so that extraction does not outpace the filesystem and buffer a whole pack in memory.
+ * @param concurrency The maximum number of Documents being written at once.
+ * @returns The queue.
+ */
+function createWriteQueue(concurrency: number) {
+  const running = new Set<Promise<void>>()
+  let failure: unknown
+  const check = () => {
+    if (failure) throw failure
+  }
+  return {
+    /**
+     * Queue the files of a Document, waiting for a slot first.
+     * @param files     The files to write.
+     * @param [written] A function called once the files are written.
+     */
+    async add(files: OutputFile[], written?: () => void): Promise<void> {
+      while (running.size >= Math.max(concurrency, 1)) await Promise.race(running)
+      check()
+      const task: Promise<void> = (async () => {
+        for (const [file, content] of files) await (content === null ? fse.remove(file) : fse.outputFile(file, content))
+        written?.()
+      })()
+        .catch((err) => {
+          failure ??= err
+        })
+        .finally(() => running.delete(task))
+      running.add(task)
+    },
+    /** Wait for every queued file to be written. */
+    async flush(): Promise<void> {
+      await Promise.all(running)
+      check()
+    },
+  }
 }
 
 /* -------------------------------------------- */
 /*  Types                                       */
 /* -------------------------------------------- */
 
+/** An error reporting that a LevelDB compendium pack is locked by another process. */
+export class PackLockedError extends Error {
+  constructor(
+    readonly pack: string,
+    cause?: unknown,
+  ) {
+    super(
+      `The pack ${pack} is locked by another process. LevelDB packs can only be opened by one process at a time, ` +
+        "most likely a running Foundry VTT server with a world using this pack. Close the world or stop the server, " +
+        "or extract the pack from a snapshot with the snapshot option.",
+      { cause },
+    )
+    this.name = "PackLockedError"
+  }
+}
+
 /**
  * @param entry The entry data.
  * @returns `false` to indicate that this entry should be discarded.
@@ -369,13 +1703,32 @@ type EntryTransformer = (entry: object) => Promise<false | void>
  * @param options Additional options supplied by the invocation on the level above this one.
  * @returns Options to supply to the next level of the hierarchy.
  */
-type HierarchyApplyCallback<TDocument extends Document = Document> = (
+export type HierarchyApplyCallback<TDocument extends Document = Document> = (
   doc: TDocument & { _id: string },
   collection: string,
   options?: unknown,
 ) => Promise<TDocument | Record<string, string> | void>
 
-interface Document {
+/** A Document read from a source file or a pack, along with a description of where it was read from. */
+export interface SourceEntry {
+  /** The source file path or the pack key. */
+  source: string
+  doc: Document
+}
+
+/** Where a source document stands in the Document hierarchy. */
+export interface HierarchyContext {
+  /** The collection of the document, e.g. "actors" or "items". */
+  collection: string
+  /** The full sublevel of the document, e.g. "actors.items". */
+  sublevel: string
+  /** The full ID path of the document, e.g. "<actorId>.<itemId>". */
+  idPath: string
+  /** Whether the document is a primary document, otherwise an embedded one. */
+  primary: boolean
+}
+
+export interface Document {
   _key?: string
   _id: string
   _name: string
@@ -383,6 +1736,56 @@ interface Document {
   folder: string
 }
 
+/** A LevelDB compendium pack opened to query and patch its Documents in place. */
+export interface CompendiumPack {
+  /** The path to the pack. */
+  readonly path: string
+  /**
+   * Find the Documents of a sublevel matching a predicate. Embedded collections hold the IDs of the embedded
+   * Documents, which are stored in their own sublevels.
+   * @param collection The sublevel, e.g. "items" for primary Items, or "actors.items" for the Items of Actors.
+   * @param predicate  The predicate, otherwise every Document of the sublevel is returned.
+   * @returns The Documents along with their `_key`, in key order.
+   */
+  find<T extends Document = Document>(collection: string, predicate?: (doc: T) => boolean): Promise<T[]>
+  /**
+   * Get a Document.
+   * @param uuid The compendium or relative UUID of the Document, its key, or the ID of a primary Document.
+   * @returns The Document along with its `_key`, if it exists.
+   */
+  get<T extends Document = Document>(uuid: string): Promise<T | undefined>
+  /**
+   * Stage an update of a Document. Its ID and embedded collections cannot be updated.
+   * @param id    The compendium or relative UUID of the Document, its key, or the ID of a primary Document.
+   * @param patch The update, whose keys may be dotted paths, and "-=" prefixed keys delete fields.
+   * @returns The updated Document.
+   * @throws {Error} If the Document does not exist.
+   */
+  update<T extends Document = Document>(id: string, patch: Record<string, unknown>): Promise<T>
+  /**
+   * Stage the deletion of a Document along with its embedded Documents, removing it from its parent Document.
+   * @param id The compendium or relative UUID of the Document, its key, or the ID of a primary Document.
+   * @returns The keys of the deleted entries.
+   * @throws {Error} If the Document does not exist.
+   */
+  delete(id: string): Promise<string[]>
+  /**
+   * Write the staged changes in a single atomic batch.
+   * @returns The keys written.
+   */
+  commit(): Promise<PackCommitResult>
+  /** Close the pack, discarding the uncommitted changes. */
+  close(): Promise<void>
+}
+
+/** The entries written by a commit of a compendium pack. */
+export interface PackCommitResult {
+  /** The keys of the entries added or updated. */
+  updated: string[]
+  /** The keys of the entries deleted. */
+  deleted: string[]
+}
+
 interface PackageOptions {
   /**
    * Whether to operate on a NeDB database, otherwise a LevelDB database is assumed.
@@ -397,19 +1800,57 @@ interface PackageOptions {
   transformEntry: EntryTransformer
 }
 
-interface CompileOptions extends PackageOptions {
+export interface CompileOptions extends PackageOptions {
   /**
    * Whether to recurse into child directories to locate source files, otherwise
    * only source files located in the root directory will be used.
    */
   recursive?: boolean
+  /** Whether to only compute the changes, without writing anything to the pack. */
+  dryRun?: boolean
+  /**
+   * Whether to store a content hash per key next to the pack, so that only changed entries are written.
+   * (LevelDB ONLY)
+   */
+  incremental?: boolean
+  /** Whether to validate the source files before packing anything, or the validators to use. */
+  validate?: boolean | DocumentValidator[]
+  /** Whether to generate the missing `_id` and `_key` of the source files, or "write" to also write them back. */
+  normalize?: boolean | "write"
+  /** The type of Document stored in the pack, used to derive the missing `_key`s. */
+  documentType?: DocumentType
+}
+
+/** The changes made to a pack by a compilation, as lists of pack keys. */
+export interface CompileResult {
+  /** The keys of the entries which were not in the pack. */
+  added: string[]
+  /** The keys of the entries whose content changed. */
+  modified: string[]
+  /** The keys of the entries whose content did not change. */
+  unchanged: string[]
+  /** The keys of the entries which are no longer part of the source set. */
+  removed: string[]
 }
 
-interface ExtractOptions extends PackageOptions {
+export interface ExtractOptions extends PackageOptions {
   /**  Create a directory structure that matches the compendium folders. */
   folders: boolean
   yamlOptions: YAML.DumpOptions
   jsonOptions: JSONOptions
+  /** Whether to serialize the Documents canonically, so that unchanged Documents produce byte-identical files. */
+  canonical: boolean | Partial<CanonicalOptions>
+  /** Write the HTML and markdown of journal pages and the command of script macros to sidecar files. */
+  sidecars: boolean
+  /**
+   * "document" to write each primary Document with all of its embedded Documents in a single file, "directory" to
+   * write it as a directory with one file per embedded Document.
+   */
+  layout: "document" | "directory"
+  /** Extract from a temporary copy of the pack, so that a pack locked by a running server can be extracted. */
+  snapshot: boolean
+  /** The maximum number of Documents being written at once. */
+  concurrency: number
   documentType: DocumentType
   clean: boolean
   collection: DocumentCollection
@@ -418,13 +1859,36 @@ interface ExtractOptions extends PackageOptions {
   transformFolderName: NameTransformer
 }
 
+export interface CanonicalOptions {
+  /** The dotted paths of the volatile fields to remove from every (embedded) Document. */
+  strip: string[]
+  /** The dotted paths of the volatile fields to replace in every (embedded) Document, with their fixed value. */
+  normalize: Record<string, unknown>
+  /** The number of significant digits non-integer numbers are rounded to. */
+  precision: number
+}
+
 interface JSONOptions {
   replacer?: JSONReplacer | (string | number)[]
   space?: string | number
 }
 
+/** The supported formats of a pack: a NeDB `.db` file, a LevelDB directory or a directory of source files. */
+export type PackFormat = "nedb" | "leveldb" | "source"
+
+interface ConvertOptions
+  extends Partial<Omit<CompileOptions, "nedb"> & Omit<ExtractOptions, "nedb" | "documentType" | "collection">> {
+  from: PackFormat
+  to: PackFormat
+  documentType?: DocumentType
+  collection?: DocumentCollection
+}
+
 type JSONReplacer = (key: string, value: object) => object
 
+/** A file to write, as its path and its content, or null to remove it. */
+type OutputFile = [filename: string, content: string | null]
+
 type NameTransformer = (entry: object, context?: { folder: string }) => Promise<string | void>
 
 /* -------------------------------------------- */
@@ -435,7 +1899,7 @@ type NameTransformer = (entry: object, context?: { folder: string }) => Promise<
  * A flattened view of the Document hierarchy. The type of the value determines what type of collection it is. Arrays
  * represent embedded collections, while objects represent embedded documents.
  */
-const HIERARCHY: Record<string, Record<string, object | unknown[]>> = {
+export const HIERARCHY: Record<string, Record<string, object | unknown[]>> = {
   actors: {
     items: [],
     effects: [],
@@ -482,6 +1946,21 @@ const HIERARCHY: Record<string, Record<string, object | unknown[]>> = {
   },
 }
 
+/** The base name of the Document file of a Document written with the "directory" layout. */
+const DIRECTORY_DOCUMENT_NAME = "_Document"
+
+/** The key of the object replacing a value written to a sidecar file, whose value is the sidecar filename. */
+const SIDECAR_KEY = "$sidecar"
+
+/** The collections of the Documents which may have sidecar files: journal entries, their pages, and macros. */
+const SIDECAR_COLLECTIONS = ["journal", "journal.pages", "macros"]
+
+/** The extensions of sidecar files. */
+const SIDECAR_EXTENSIONS = [".html", ".md", ".js"]
+
+/** The keys which would let an update reach the prototype of an object. */
+const UNSAFE_PATCH_SEGMENTS = ["__proto__", "constructor", "prototype"]
+
 /**
  * A mapping of primary document types to collection names.
  * @type {Record<DocumentType, DocumentCollection>}
@@ -504,6 +1983,50 @@ export const TYPE_COLLECTION_MAP: Record<DocumentType, DocumentCollection> = {
   User: "users",
 }
 
+/** A mapping of embedded document types to collection names, as used by UUIDs. */
+const EMBEDDED_TYPE_COLLECTION_MAP: Record<EmbeddedDocumentType, string> = {
+  ActiveEffect: "effects",
+  ActorDelta: "delta",
+  AmbientLight: "lights",
+  AmbientSound: "sounds",
+  Card: "cards",
+  Combatant: "combatants",
+  Drawing: "drawings",
+  Item: "items",
+  JournalEntryCategory: "categories",
+  JournalEntryPage: "pages",
+  MeasuredTemplate: "templates",
+  Note: "notes",
+  PlaylistSound: "sounds",
+  Region: "regions",
+  RegionBehavior: "behaviors",
+  TableResult: "results",
+  Tile: "tiles",
+  Token: "tokens",
+  Wall: "walls",
+}
+
+type EmbeddedDocumentType =
+  | "ActiveEffect"
+  | "ActorDelta"
+  | "AmbientLight"
+  | "AmbientSound"
+  | "Card"
+  | "Combatant"
+  | "Drawing"
+  | "Item"
+  | "JournalEntryCategory"
+  | "JournalEntryPage"
+  | "MeasuredTemplate"
+  | "Note"
+  | "PlaylistSound"
+  | "Region"
+  | "RegionBehavior"
+  | "TableResult"
+  | "Tile"
+  | "Token"
+  | "Wall"
+
 export type DocumentType =
   | "Actor"
   | "Adventure"
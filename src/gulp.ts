@@ -0,0 +1,101 @@
+import type { TaskFunction } from "gulp"
+import path from "node:path"
+import pc from "picocolors"
+import { compilePack, extractPack } from "./database"
+import type { CompileOptions, ExtractOptions } from "./database"
+import { getFoundryPacks } from "./utils"
+import type { FoundryPackInfo } from "./utils"
+
+/** Options shared by the pack task factories. */
+interface PacksTaskOptions {
+  /** The directory containing one source directory per pack, relative to the package root. */
+  sourcePath: string
+  /** The names of the packs to operate on, otherwise all packs declared in the manifest are used. */
+  packs: string[]
+}
+
+export type CompilePacksTaskOptions = PacksTaskOptions & Omit<CompileOptions, "nedb" | "documentType">
+
+export type ExtractPacksTaskOptions = PacksTaskOptions & Omit<ExtractOptions, "nedb" | "documentType" | "collection">
+
+/**
+ * Create a gulp task compiling every compendium pack declared in the Foundry VTT package manifest.
+ * @param rootPath The directory path to the root of the Foundry VTT package.
+ * @param [options]
+ * @param options.sourcePath The directory containing one source directory per pack, relative to the package root.
+ * @param options.packs      The names of the packs to compile, otherwise all packs are compiled.
+ * @returns The gulp task.
+ */
+export function createCompilePacksTask(
+  rootPath = ".",
+  { sourcePath = "packs/_source", packs, ...options }: Partial<CompilePacksTaskOptions> = {},
+): TaskFunction {
+  const task: TaskFunction = () =>
+    runPacks(rootPath, packs, "Compiling", "Compiled", async (pack) => {
+      const src = path.resolve(rootPath, sourcePath, pack.name)
+      await compilePack(src, pack.resolvedPath, { ...options, nedb: pack.nedb, documentType: pack.type })
+    })
+  task.displayName = "compilePacks"
+  task.description = "Compile all compendium packs from their source files."
+  return task
+}
+
+/**
+ * Create a gulp task extracting every compendium pack declared in the Foundry VTT package manifest.
+ * @param rootPath The directory path to the root of the Foundry VTT package.
+ * @param [options]
+ * @param options.sourcePath The directory containing one source directory per pack, relative to the package root.
+ * @param options.packs      The names of the packs to extract, otherwise all packs are extracted.
+ * @returns The gulp task.
+ */
+export function createExtractPacksTask(
+  rootPath = ".",
+  { sourcePath = "packs/_source", packs, ...options }: Partial<ExtractPacksTaskOptions> = {},
+): TaskFunction {
+  const task: TaskFunction = () =>
+    runPacks(rootPath, packs, "Extracting", "Extracted", async (pack) => {
+      const dest = path.resolve(rootPath, sourcePath, pack.name)
+      await extractPack(pack.resolvedPath, dest, { ...options, nedb: pack.nedb, documentType: pack.type })
+    })
+  task.displayName = "extractPacks"
+  task.description = "Extract all compendium packs into source files."
+  return task
+}
+
+/**
+ * Run an operation on every selected pack, logging the progress and reporting all failures at the end.
+ * @param rootPath The directory path to the root of the Foundry VTT package.
+ * @param names    The names of the packs to operate on, otherwise all packs are used.
+ * @param verb     The progressive verb describing the operation.
+ * @param pastVerb The past verb describing the operation.
+ * @param fn       The operation.
+ */
+async function runPacks(
+  rootPath: string,
+  names: string[] | undefined,
+  verb: string,
+  pastVerb: string,
+  fn: (pack: FoundryPackInfo) => Promise<void>,
+): Promise<void> {
+  const packs = (await getFoundryPacks(rootPath)).filter((pack) => !names || names.includes(pack.name))
+  const unknownNames = names?.filter((name) => !packs.some((pack) => pack.name === name)) ?? []
+  if (unknownNames.length > 0) throw new Error(`Unknown packs: ${unknownNames.join(", ")}`)
+
+  const failures: { pack: FoundryPackInfo; error: unknown }[] = []
+  for (const [index, pack] of packs.entries()) {
+    console.log(`${verb} pack ${pc.blue(pack.name)} (${index + 1}/${packs.length})`)
+    try {
+      await fn(pack)
+    } catch (error) {
+      console.error(`Failed to process pack ${pc.red(pack.name)}: ${error instanceof Error ? error.message : error}`)
+      failures.push({ pack, error })
+    }
+  }
+
+  console.log(`${pastVerb} ${pc.green(packs.length - failures.length)} of ${packs.length} packs`)
+  if (failures.length > 0) {
+    throw new Error(`${failures.length} pack(s) failed: ${failures.map(({ pack }) => pack.name).join(", ")}`, {
+      cause: failures.map(({ error }) => error),
+    })
+  }
+}
@@ -1,3 +1,36 @@
-export type { DocumentType } from "./database"
-export { compilePack, extractPack } from "./database"
+export type {
+  CanonicalOptions,
+  CompileOptions,
+  CompendiumPack,
+  CompileResult,
+  DocumentType,
+  ExtractOptions,
+  PackCommitResult,
+  PackFormat,
+} from "./database"
+export { compilePack, convertPack, extractPack, openPack, PackLockedError } from "./database"
+export type { CompilePacksTaskOptions, ExtractPacksTaskOptions } from "./gulp"
+export { createCompilePacksTask, createExtractPacksTask } from "./gulp"
+export type { BabeleExportOptions, CheckLocalizationOptions, LocalizationIssue } from "./localization"
+export { checkLocalization, exportBabeleTranslations } from "./localization"
+export { buildManifest, ManifestValidationError, validateManifest } from "./manifest"
+export type { MigratePackOptions, MigrateSourcesOptions, Migration, MigrationReport, Migrations } from "./migrations"
+export { migratePack, migrateSources } from "./migrations"
+export type { NormalizeOptions } from "./normalize"
+export { normalizeSources } from "./normalize"
+export type { PackageRelease, PackageReleaseOptions } from "./release"
+export { packageRelease } from "./release"
+export type { CheckReferencesOptions, ReferenceIssue } from "./references"
+export { checkReferences } from "./references"
 export * from "./utils"
+export type { DocumentValidator, ValidatedDocument, ValidationContext, ValidationIssue } from "./validation"
+export {
+  defaultValidators,
+  PackValidationError,
+  validateHierarchy,
+  validateId,
+  validateKey,
+  validateName,
+} from "./validation"
+export type { PacksWatcher, WatchPacksOptions } from "./watch"
+export { watchPacks } from "./watch"
@@ -0,0 +1,248 @@
+import * as fse from "fs-extra"
+import path from "node:path"
+import { getFoundryManifestPath } from "./_utils"
+import { findSourceFiles, inlineSidecars, readPack, readSourceFiles } from "./database"
+import type { Document } from "./database"
+import { getFoundryManifest, getFoundryPacks } from "./utils"
+
+/* -------------------------------------------- */
+/*  Checking                                    */
+/* -------------------------------------------- */
+
+/**
+ * Check the localization keys of a Foundry VTT package: the keys referenced by the sources and the compendium sources
+ * which are in no language file, the keys of the language files which are never referenced, and the keys which are
+ * only present in some of the language files declared in the manifest.
+ * Referenced keys are string literals, such as the arguments of `localize` and `format` calls and helpers, starting
+ * with one of the top-level namespaces of the language files, e.g. `"MYSYS.Foo.Bar"` when a language file defines
+ * `MYSYS`. In compendium sources, every string field is a literal. A reference ending with a dot, e.g.
+ * `"MYSYS.Abilities." + id` or `` `MYSYS.Abilities.${id}` ``, marks every key starting with it as used.
+ * @param rootPath The directory path to the root of the Foundry VTT package.
+ * @param [options]
+ * @param options.sourcePaths The directories of the scripts and templates, relative to the package root.
+ * @param options.extensions  The extensions of the scripts and templates.
+ * @param options.packsPath   The directory containing one source directory per pack, relative to the package root.
+ * @param options.yaml        Whether the pack source files are in YAML format, otherwise JSON is assumed.
+ * @returns The issues found.
+ */
+export async function checkLocalization(
+  rootPath = ".",
+  {
+    sourcePaths = ["src", "templates"],
+    extensions = [".js", ".mjs", ".ts", ".hbs", ".html"],
+    packsPath = "packs/_source",
+    yaml = false,
+  }: Partial<CheckLocalizationOptions> = {},
+): Promise<LocalizationIssue[]> {
+  const languages = await loadLanguages(rootPath)
+  const keys = new Set([...languages.values()].flatMap((translations) => [...translations.keys()]))
+  const namespaces = [...new Set([...keys].map((key) => key.split(".")[0]))]
+  if (namespaces.length === 0) return []
+
+  // Collect the referenced keys, along with the first file referencing them.
+  const references = new Map<string, string>()
+  const dynamicPrefixes = new Set<string>()
+  const escaped = namespaces.map((namespace) => namespace.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+  const keySource = `(?:${escaped.join("|")})(?:\\.[\\w-]+)+\\.?`
+  // A key must be quoted, or be followed by an interpolation in a template literal.
+  const pattern = new RegExp(`(["'\`])(${keySource})(?=\\1|\\$\\{)`, "g")
+  const keyPattern = new RegExp(`^${keySource}$`)
+  const addReference = (match: string, source: string) => {
+    if (match.endsWith(".")) dynamicPrefixes.add(match)
+    else if (!references.has(match)) references.set(match, source)
+  }
+  const scan = (text: string, source: string) => {
+    for (const [, , match] of text.matchAll(pattern)) addReference(match, source)
+  }
+  // The string fields of documents are either a key or some text, e.g. HTML, which may contain quoted keys.
+  const scanValue = (value: unknown, source: string) => {
+    if (typeof value === "string") {
+      if (keyPattern.test(value)) addReference(value, source)
+      else scan(value, source)
+    } else if (value && typeof value === "object") {
+      for (const nested of Object.values(value)) scanValue(nested, source)
+    }
+  }
+  for (const sourcePath of sourcePaths) {
+    for (const file of findFiles(path.resolve(rootPath, sourcePath), extensions)) {
+      scan(await fse.readFile(file, "utf-8"), file)
+    }
+  }
+  const packsSourcePath = path.resolve(rootPath, packsPath)
+  if (await fse.pathExists(packsSourcePath)) {
+    const files = findSourceFiles(packsSourcePath, { yaml, recursive: true })
+    for await (const { source, doc } of inlineSidecars(readSourceFiles(files))) scanValue(doc, source)
+  }
+
+  const issues: LocalizationIssue[] = []
+  for (const [key, source] of references) {
+    if (!keys.has(key)) issues.push({ type: "missing", key, source })
+  }
+  for (const key of keys) {
+    const isUsed = references.has(key) || [...dynamicPrefixes].some((prefix) => key.startsWith(prefix))
+    if (!isUsed) issues.push({ type: "unused", key })
+    const missingLanguages = [...languages].filter(([, translations]) => !translations.has(key)).map(([lang]) => lang)
+    if (missingLanguages.length > 0) issues.push({ type: "partial", key, languages: missingLanguages })
+  }
+  return issues
+}
+
+/**
+ * Load every language file declared in the manifest, as flat translations.
+ * @param rootPath The directory path to the root of the Foundry VTT package.
+ * @returns The translations of each language, by key.
+ */
+async function loadLanguages(rootPath: string): Promise<Map<string, Map<string, string>>> {
+  const manifestDir = path.dirname(await getFoundryManifestPath(rootPath))
+  const manifest = await getFoundryManifest(rootPath)
+  const languages = new Map<string, Map<string, string>>()
+  for (const { lang, path: languagePath } of (manifest.languages ?? []) as { lang: string; path: string }[]) {
+    const translations = languages.get(lang) ?? new Map<string, string>()
+    // Nested objects are flattened to dotted keys, as Foundry VTT does.
+    const flatten = (value: unknown, prefix: string) => {
+      if (value && typeof value === "object") {
+        for (const [key, nested] of Object.entries(value)) flatten(nested, prefix ? `${prefix}.${key}` : key)
+      } else translations.set(prefix, String(value))
+    }
+    flatten(await fse.readJSON(path.resolve(manifestDir, languagePath)), "")
+    languages.set(lang, translations)
+  }
+  return languages
+}
+
+/**
+ * Find the files with some extensions in a directory, recursively.
+ * @param root       The directory.
+ * @param extensions The file extensions.
+ * @returns The files.
+ */
+function findFiles(root: string, extensions: string[]): string[] {
+  if (!fse.existsSync(root)) return []
+  return fse.readdirSync(root, { withFileTypes: true }).flatMap((entry) => {
+    const name = path.join(root, entry.name)
+    if (entry.isDirectory()) return entry.name === "node_modules" ? [] : findFiles(name, extensions)
+    return entry.isFile() && extensions.includes(path.extname(entry.name)) ? [name] : []
+  })
+}
+
+/* -------------------------------------------- */
+/*  Babele                                      */
+/* -------------------------------------------- */
+
+/**
+ * Export the translatable fields of the compendium packs of a Foundry VTT package into one Babele translation file
+ * per pack, `<package>.<pack>.json`, to be used as the starting point of a translation: the pack label, the folder
+ * names, and the name and description of each document, along with the name and text of journal pages.
+ * @param rootPath The directory path to the root of the Foundry VTT package.
+ * @param outDir   The directory to write the translation files into, relative to the package root.
+ * @param [options]
+ * @param options.packs The names of the packs to export, otherwise all packs are exported.
+ * @param options.keyBy Whether to key the entries by document name, as Babele does by default, or by ID. The
+ *                      documents whose name is already taken in their pack are keyed by ID, with a warning.
+ * @returns The translation files written.
+ */
+export async function exportBabeleTranslations(
+  rootPath = ".",
+  outDir = "lang/babele",
+  { packs: names, keyBy = "name" }: Partial<BabeleExportOptions> = {},
+): Promise<string[]> {
+  const { id: packageId } = await getFoundryManifest(rootPath)
+  const packs = (await getFoundryPacks(rootPath)).filter((pack) => !names || names.includes(pack.name))
+  const files: string[] = []
+  for (const pack of packs) {
+    const folders: Record<string, string> = {}
+    const entries: Record<string, BabeleEntry> = {}
+    for await (const { source: key, doc } of readPack(pack.resolvedPath, {
+      nedb: pack.nedb,
+      documentType: pack.type,
+    })) {
+      if (key.startsWith("!folders!")) {
+        folders[doc.name] = doc.name
+        continue
+      }
+      let entryKey = keyBy === "id" ? doc._id : doc.name
+      if (Object.hasOwn(entries, entryKey)) {
+        console.warn(`Duplicate name '${doc.name}' in the pack ${pack.name}, the document ${doc._id} is keyed by ID.`)
+        entryKey = doc._id
+      }
+      entries[entryKey] = getBabeleEntry(doc)
+    }
+
+    const file = path.resolve(rootPath, outDir, `${packageId}.${pack.name}.json`)
+    const folderCount = Object.keys(folders).length
+    await fse.outputJSON(file, { label: pack.label, ...(folderCount > 0 && { folders }), entries }, { spaces: 2 })
+    files.push(file)
+  }
+  return files
+}
+
+/**
+ * Get the translatable fields of a document.
+ * @param doc The document.
+ * @returns The Babele entry.
+ */
+function getBabeleEntry(doc: Document): BabeleEntry {
+  const {
+    system,
+    description: ownDescription,
+    pages,
+  } = doc as Document & {
+    system?: { description?: { value?: unknown } | string }
+    description?: unknown
+    pages?: { name: string; text?: { content?: string } }[]
+  }
+  const description =
+    typeof system?.description === "object" ? system.description.value : (system?.description ?? ownDescription)
+  const entry: BabeleEntry = { name: doc.name }
+  if (typeof description === "string" && description !== "") entry.description = description
+  if (pages && pages.length > 0) {
+    entry.pages = Object.fromEntries(
+      pages.map((page) => [page.name, { name: page.name, ...(page.text?.content && { text: page.text.content }) }]),
+    )
+  }
+  return entry
+}
+
+/* -------------------------------------------- */
+/*  Types                                       */
+/* -------------------------------------------- */
+
+/** An issue found while checking the localization keys of a package. */
+export interface LocalizationIssue {
+  /**
+   * The kind of issue: a referenced key in no language file, a key never referenced, or a key missing from some of
+   * the language files.
+   */
+  type: "missing" | "unused" | "partial"
+  /** The localization key. */
+  key: string
+  /** The first file referencing a missing key. */
+  source?: string
+  /** The languages a partial key is missing from. */
+  languages?: string[]
+}
+
+export interface CheckLocalizationOptions {
+  /** The directories of the scripts and templates, relative to the package root. */
+  sourcePaths: string[]
+  /** The extensions of the scripts and templates. */
+  extensions: string[]
+  /** The directory containing one source directory per pack, relative to the package root. */
+  packsPath: string
+  /** Whether the pack source files are in YAML format, otherwise JSON is assumed. */
+  yaml: boolean
+}
+
+export interface BabeleExportOptions {
+  /** The names of the packs to export, otherwise all packs declared in the manifest are exported. */
+  packs: string[]
+  /** Whether to key the entries by document name, as Babele does by default, or by ID. */
+  keyBy: "name" | "id"
+}
+
+/** The translatable fields of a document, in the Babele format. */
+interface BabeleEntry {
+  name: string
+  description?: string
+  pages?: Record<string, { name: string; text?: string }>
+}
@@ -0,0 +1,271 @@
+import * as fse from "fs-extra"
+import path from "node:path"
+import { compareFoundryVersions, getFoundryPackageType, readPackageJson } from "./_utils"
+import { detectPackDocumentType } from "./database"
+import type { DocumentType } from "./database"
+import type { FoundryManifest, FoundryPackManifest } from "./utils"
+
+/* -------------------------------------------- */
+/*  Building                                    */
+/* -------------------------------------------- */
+
+/**
+ * Build the Foundry VTT package manifest, `system.json` or `module.json`, from the metadata of `package.json` and its
+ * `foundry` block, along with the packs, languages, ES modules and styles discovered in the output directory. Any
+ * of them declared in the `foundry` block takes precedence over the discovered ones. The package type is the `type`
+ * of the `foundry` block, otherwise the type of the existing manifest.
+ * @param rootPath The directory path to the root of the Foundry VTT package.
+ * @param outDir   The output directory of the package, relative to the package root, in which the manifest is
+ *                 written.
+ * @returns The manifest.
+ * @throws {ManifestValidationError} If the manifest breaks the rules of Foundry VTT, nothing is written then.
+ */
+export async function buildManifest(rootPath = ".", outDir = "dist"): Promise<FoundryManifest> {
+  const outPath = path.resolve(rootPath, outDir)
+  const packageJson = await readPackageJson(rootPath)
+  const {
+    type = await detectPackageType(rootPath, outPath),
+    required_version: verified,
+    minimum_version: minimum,
+    maximum_version: maximum,
+    compatibility = { minimum, verified, maximum },
+    esmodules = await discoverFiles(outPath, ["", "scripts"], [".js", ".mjs"]),
+    styles = await discoverFiles(outPath, ["", "styles"], [".css"]),
+    languages = await discoverLanguages(outPath),
+    packs: declaredPacks = [],
+    ...foundry
+  } = (packageJson.foundry ?? {}) as Record<string, unknown>
+
+  if (type !== "module" && type !== "system") {
+    throw new Error(`The package type '${type}' of package.json must be either "module" or "system".`)
+  }
+  const packs = await discoverPacks(outPath, declaredPacks as FoundryPackManifest[])
+  const manifest: FoundryManifest = {
+    id: foundry.id as string,
+    title: foundry.title as string,
+    description: packageJson.description,
+    version: packageJson.version as string,
+    authors: getAuthors(packageJson),
+    url: packageJson.homepage,
+    bugs: typeof packageJson.bugs === "string" ? packageJson.bugs : (packageJson.bugs as { url?: string })?.url,
+    license: packageJson.license,
+    ...foundry,
+    compatibility: JSON.parse(JSON.stringify(compatibility)),
+    esmodules,
+    styles,
+    languages,
+    ...(packs.length > 0 && { packs }),
+  }
+
+  const issues = validateManifest(manifest, outPath)
+  if (issues.length > 0) throw new ManifestValidationError(issues)
+  await fse.outputJSON(path.join(outPath, `${type}.json`), manifest, { spaces: 2 })
+  return manifest
+}
+
+/**
+ * Check a Foundry VTT package manifest against the rules Foundry VTT applies when loading it.
+ * @param manifest The manifest.
+ * @param outPath  The directory of the package, used to check that the declared files exist.
+ * @returns The issues found.
+ */
+export function validateManifest(manifest: FoundryManifest, outPath: string): string[] {
+  const issues: string[] = []
+  const isString = (value: unknown): value is string => typeof value === "string" && value.trim() !== ""
+  const checkFile = (field: string, file: unknown) => {
+    if (!isString(file)) issues.push(`${field} must be a path.`)
+    else if (!fse.existsSync(path.join(outPath, file))) issues.push(`${field} '${file}' does not exist.`)
+  }
+
+  if (!isString(manifest.id)) issues.push("id is missing.")
+  else if (!ID_PATTERN.test(manifest.id)) {
+    issues.push(`id '${manifest.id}' must only contain lowercase letters, numbers, hyphens and underscores.`)
+  }
+  if (!isString(manifest.title)) issues.push("title is missing.")
+  if (!isString(manifest.version)) issues.push("version is missing.")
+  for (const [index, author] of ((manifest.authors as { name?: unknown }[] | undefined) ?? []).entries()) {
+    if (!isString(author.name)) issues.push(`authors[${index}].name is missing.`)
+  }
+
+  // Compatibility versions are either generations, e.g. "13", or full versions, e.g. "13.345".
+  const compatibility = (manifest.compatibility ?? {}) as Record<string, unknown>
+  for (const [field, version] of Object.entries(compatibility)) {
+    if (!isString(version) || !VERSION_PATTERN.test(version)) {
+      issues.push(`compatibility.${field} '${version}' is not a Foundry VTT version.`)
+    }
+  }
+  const { minimum, verified, maximum } = compatibility as Record<string, string | undefined>
+  const ordered = [minimum, verified, maximum].filter((version) => version && VERSION_PATTERN.test(version))
+  for (let i = 1; i < ordered.length; i++) {
+    if (compareFoundryVersions(ordered[i - 1] as string, ordered[i] as string) > 0) {
+      issues.push("compatibility versions must be ordered as minimum <= verified <= maximum.")
+      break
+    }
+  }
+
+  for (const field of ["esmodules", "styles"]) {
+    for (const [index, file] of ((manifest[field] as unknown[] | undefined) ?? []).entries()) {
+      checkFile(`${field}[${index}]`, file)
+    }
+  }
+  for (const [index, language] of ((manifest.languages as Record<string, unknown>[] | undefined) ?? []).entries()) {
+    if (!isString(language.lang)) issues.push(`languages[${index}].lang is missing.`)
+    if (!isString(language.name)) issues.push(`languages[${index}].name is missing.`)
+    checkFile(`languages[${index}].path`, language.path)
+  }
+
+  const packNames = new Set<string>()
+  for (const [index, pack] of (manifest.packs ?? []).entries()) {
+    const field = `packs[${index}]`
+    if (!isString(pack.name)) issues.push(`${field}.name is missing.`)
+    else if (!ID_PATTERN.test(pack.name)) {
+      issues.push(`${field}.name '${pack.name}' must only contain lowercase letters, numbers, hyphens and underscores.`)
+    } else if (packNames.has(pack.name)) issues.push(`${field}.name '${pack.name}' is not unique.`)
+    else packNames.add(pack.name)
+    if (!isString(pack.label)) issues.push(`${field}.label is missing.`)
+    if (!PACK_TYPES.includes(pack.type)) {
+      issues.push(`${field}.type '${pack.type}' is not one of ${PACK_TYPES.join(", ")}.`)
+    }
+    checkFile(`${field}.path`, pack.path)
+  }
+  return issues
+}
+
+/**
+ * Detect the type of a package without any declared type from its existing manifest, either a previously built one
+ * in the output directory or the one located by `getFoundryPackageType`.
+ * @param rootPath The directory path to the root of the Foundry VTT package.
+ * @param outPath  The output directory of the package.
+ * @returns The package type.
+ * @throws {Error} If there is no existing manifest.
+ */
+async function detectPackageType(rootPath: string, outPath: string): Promise<"module" | "system"> {
+  if (await fse.pathExists(path.join(outPath, "system.json"))) return "system"
+  if (await fse.pathExists(path.join(outPath, "module.json"))) return "module"
+  try {
+    return await getFoundryPackageType(rootPath)
+  } catch {
+    throw new Error('No package type set in the foundry block of package.json, e.g. "type": "module".')
+  }
+}
+
+/**
+ * Get the authors of the manifest from the `author` and `contributors` of `package.json`, either strings such as
+ * "Name <email> (url)" or objects.
+ * @param packageJson The content of `package.json`.
+ * @returns The authors.
+ */
+function getAuthors(packageJson: Record<string, unknown>): Record<string, string>[] {
+  const people = [packageJson.author ?? [], packageJson.contributors ?? []].flat() as (string | object)[]
+  return people.map((person) => {
+    if (typeof person !== "string") return person as Record<string, string>
+    const [, name, email, url] = person.match(/^([^<(]*?)\s*(?:<([^>]*)>)?\s*(?:\(([^)]*)\))?$/) ?? [person, person]
+    return JSON.parse(JSON.stringify({ name, email, url }))
+  })
+}
+
+/**
+ * Discover the files with some extensions in some directories of the package, non-recursively.
+ * @param outPath    The directory of the package.
+ * @param dirnames   The directories to search, relative to the package directory.
+ * @param extensions The file extensions.
+ * @returns The files, relative to the package directory.
+ */
+async function discoverFiles(outPath: string, dirnames: string[], extensions: string[]): Promise<string[]> {
+  const files: string[] = []
+  for (const dirname of dirnames) {
+    if (!(await fse.pathExists(path.join(outPath, dirname)))) continue
+    for (const entry of await fse.readdir(path.join(outPath, dirname), { withFileTypes: true })) {
+      if (entry.isFile() && extensions.includes(path.extname(entry.name))) {
+        files.push(path.posix.join(dirname, entry.name))
+      }
+    }
+  }
+  return files.sort()
+}
+
+/**
+ * Discover the languages of the package, one `lang/<code>.json` file per language.
+ * @param outPath The directory of the package.
+ * @returns The languages.
+ */
+async function discoverLanguages(outPath: string): Promise<{ lang: string; name: string; path: string }[]> {
+  const displayNames = new Intl.DisplayNames(["en"], { type: "language" })
+  return (await discoverFiles(outPath, ["lang"], [".json"])).map((file) => {
+    const lang = path.basename(file, ".json")
+    let name = lang
+    try {
+      name = displayNames.of(lang) ?? lang
+    } catch {
+      // Not a valid language code, keep it as the name.
+    }
+    return { lang, name, path: file }
+  })
+}
+
+/**
+ * Discover the compendium packs of the package in its `packs` directory: LevelDB directories or NeDB `.db` files.
+ * The type of the Documents of LevelDB packs is detected from their content.
+ * @param outPath       The directory of the package.
+ * @param declaredPacks The packs declared in the `foundry` block, merged with the discovered ones by name.
+ * @returns The packs.
+ */
+async function discoverPacks(outPath: string, declaredPacks: FoundryPackManifest[]): Promise<FoundryPackManifest[]> {
+  const packs = new Map(declaredPacks.map((pack) => [pack.name, { path: `packs/${pack.name}`, ...pack }]))
+  const packsPath = path.join(outPath, "packs")
+  if (!(await fse.pathExists(packsPath))) return [...packs.values()]
+
+  for (const entry of await fse.readdir(packsPath, { withFileTypes: true })) {
+    const nedb = entry.isFile() && path.extname(entry.name) === ".db"
+    const leveldb = entry.isDirectory() && (await fse.pathExists(path.join(packsPath, entry.name, "CURRENT")))
+    if (!nedb && !leveldb) continue
+
+    const name = path.basename(entry.name, ".db")
+    const declared = packs.get(name)
+    const type =
+      declared?.type ?? (leveldb ? await detectPackDocumentType(path.join(packsPath, entry.name)) : undefined)
+    packs.set(name, {
+      name,
+      label: name.replace(/[-_]+/g, " ").replace(/\b\w/g, (c) => c.toUpperCase()),
+      path: `packs/${entry.name}`,
+      ...declared,
+      type: type as DocumentType,
+    })
+  }
+  return [...packs.values()]
+}
+
+/* -------------------------------------------- */
+/*  Types                                       */
+/* -------------------------------------------- */
+
+/** An error reporting all the issues found while validating a package manifest. */
+export class ManifestValidationError extends Error {
+  constructor(readonly issues: string[]) {
+    super(`${issues.length} manifest issue(s) found:\n` + issues.map((issue) => `  - ${issue}`).join("\n"))
+    this.name = "ManifestValidationError"
+  }
+}
+
+/* -------------------------------------------- */
+/*  Constants                                   */
+/* -------------------------------------------- */
+
+/** The format of package and pack identifiers. */
+const ID_PATTERN = /^[a-z0-9_-]+$/
+
+/** The format of Foundry VTT versions, e.g. "13" or "13.345". */
+const VERSION_PATTERN = /^\d+(\.\d+)*$/
+
+/** The types of Document which can be stored in compendium packs. */
+const PACK_TYPES: DocumentType[] = [
+  "Actor",
+  "Adventure",
+  "Cards",
+  "Item",
+  "JournalEntry",
+  "Macro",
+  "Playlist",
+  "RollTable",
+  "Scene",
+]
@@ -0,0 +1,208 @@
+import * as fse from "fs-extra"
+import path from "node:path"
+import pc from "picocolors"
+import {
+  applyHierarchy,
+  findEntrySidecars,
+  findSourceFiles,
+  getPrimaryContext,
+  HIERARCHY,
+  inlineEntrySidecars,
+  readSourceFiles,
+  serializeDocument,
+  transformPack,
+  walkHierarchy,
+} from "./database"
+import type { CompileOptions, Document, ExtractOptions } from "./database"
+
+/* -------------------------------------------- */
+/*  Migrating                                   */
+/* -------------------------------------------- */
+
+/**
+ * Migrate the source files of a compendium pack, writing the migrated Documents back to their source files.
+ * Each migration is applied in order to every Document and embedded Document whose recorded migration version is
+ * lower than the migration's, and the version of the last migration is then recorded in the flags of the Document.
+ * The content of sidecar files is migrated along with its Document. A Document written with the "directory" layout
+ * is rewritten as a whole, so that the files of its renamed or deleted embedded Documents do not linger.
+ * @param src        The directory containing the source files.
+ * @param migrations The migrations by version.
+ * @param options
+ * @param options.namespace The flags scope in which the migration version is recorded, e.g. the package ID.
+ * @param options.yaml      Whether the source files are in YAML format, otherwise JSON is assumed.
+ * @param options.recursive Whether to recurse into child directories to locate source files.
+ * @param options.dryRun    Whether to only report the changes, without writing anything.
+ * @param options.log       Whether to log operation progress to the console.
+ * @returns The source files migrated, deleted and unchanged.
+ */
+export async function migrateSources(
+  src: string,
+  migrations: Migrations,
+  { namespace, yaml = false, recursive = false, dryRun = false, log = false }: MigrateSourcesOptions,
+): Promise<MigrationReport> {
+  const migrate = createMigrator(migrations, namespace)
+  const report: MigrationReport = { migrated: [], deleted: [], unchanged: [] }
+  for await (const entry of readSourceFiles(findSourceFiles(src, { yaml, recursive }), { log })) {
+    const sidecarFiles = findEntrySidecars(entry)
+    const { source, doc } = inlineEntrySidecars(entry)
+    const status = await migrate(doc)
+    report[status].push(source)
+    if (status === "unchanged") continue
+    if (log) {
+      console.log(`${dryRun ? "Would have " : ""}${status === "migrated" ? "Migrated" : "Deleted"} ${pc.blue(source)}`)
+    }
+    if (dryRun) continue
+
+    const ext = path.extname(source)
+    // Documents written with the "directory" layout are read from their Document file.
+    const layout = path.basename(source, ext) === "_Document" ? "directory" : "document"
+    if (layout === "directory") fse.rmSync(path.dirname(source), { recursive: true })
+    else if (status === "deleted") {
+      for (const file of [source, ...sidecarFiles]) fse.rmSync(file, { force: true })
+    }
+    if (status === "migrated") {
+      const sidecars = sidecarFiles.length > 0
+      serializeDocument(doc, source, { yaml: ext === ".yml" || ext === ".yaml", layout, sidecars })
+    }
+  }
+  return report
+}
+
+/**
+ * Migrate the Documents of a compiled compendium pack in place, as `migrateSources` does for source files. The
+ * changes of LevelDB packs are written in a single atomic batch.
+ * @param pack       The compendium pack.
+ * @param migrations The migrations by version.
+ * @param options
+ * @param options.namespace    The flags scope in which the migration version is recorded, e.g. the package ID.
+ * @param options.nedb         Whether the pack is a NeDB database, otherwise a LevelDB database is assumed.
+ * @param options.documentType For NeDB packs, the type of Document stored in the pack.
+ * @param options.collection   For NeDB packs, the collection can be provided instead of the type of Document.
+ * @param options.dryRun       Whether to only report the changes, without writing anything to the pack.
+ * @param options.log          Whether to log operation progress to the console.
+ * @returns The keys of the primary Documents migrated, deleted and unchanged.
+ */
+export async function migratePack(
+  pack: string,
+  migrations: Migrations,
+  { namespace, nedb = false, documentType, collection, dryRun = false, log = false }: MigratePackOptions,
+): Promise<MigrationReport> {
+  const migrate = createMigrator(migrations, namespace)
+  const report: MigrationReport = { migrated: [], deleted: [], unchanged: [] }
+  await transformPack(
+    pack,
+    async (doc) => {
+      const key = doc._key as string
+      const status = await migrate(doc)
+      report[status].push(key)
+      if (log && status !== "unchanged") {
+        console.log(`${dryRun ? "Would have " : ""}${status === "migrated" ? "Migrated" : "Deleted"} ${pc.blue(key)}`)
+      }
+      return status !== "deleted"
+    },
+    { nedb, documentType, collection, dryRun },
+  )
+  return report
+}
+
+/**
+ * Create a function migrating a primary Document and its embedded Documents in place.
+ * @param migrations The migrations by version.
+ * @param namespace  The flags scope in which the migration version is recorded.
+ * @returns The function, resolving to whether the Document was migrated, deleted or left unchanged.
+ */
+function createMigrator(
+  migrations: Migrations,
+  namespace: string,
+): (doc: Document) => Promise<"migrated" | "deleted" | "unchanged"> {
+  const ordered = Object.entries(migrations)
+    .map(([version, migration]) => [Number(version), migration] as const)
+    .sort(([a], [b]) => a - b)
+  const invalidVersion = ordered.find(([version]) => !Number.isInteger(version) || version <= 0)
+  if (invalidVersion) throw new Error(`Migration versions must be positive integers, got '${invalidVersion[0]}'.`)
+  const latestVersion = ordered.at(-1)?.[0] ?? 0
+
+  return async (doc) => {
+    if (typeof doc._key !== "string") throw new Error("The entry has no _key, use the normalize option to generate it.")
+    const before = JSON.stringify(doc)
+    const deleted = new WeakSet<object>()
+
+    const migrate = applyHierarchy(async (d: Document, collection: string) => {
+      const target = d as unknown as Record<string, unknown>
+      const flags = target.flags as Record<string, Record<string, unknown> | undefined> | undefined
+      const version = Number(flags?.[namespace]?.migrationVersion ?? 0)
+      if (version >= latestVersion) return
+
+      let migrated: Record<string, unknown> = target
+      for (const [migrationVersion, migration] of ordered) {
+        if (migrationVersion <= version) continue
+        const result = await migration(migrated as unknown as Document, collection)
+        if (result === false) {
+          deleted.add(d)
+          // Leave nothing to migrate below a deleted Document.
+          for (const name of Object.keys(HIERARCHY[collection] ?? {})) delete target[name]
+          return
+        }
+        migrated = result as unknown as Record<string, unknown>
+      }
+      // The embedded Documents are migrated from the Document itself, so a returned copy replaces its content.
+      if (migrated !== target) {
+        for (const field of Object.keys(target)) delete target[field]
+        Object.assign(target, migrated)
+      }
+      const migratedFlags = (target.flags ??= {}) as Record<string, Record<string, unknown>>
+      migratedFlags[namespace] = { ...migratedFlags[namespace], migrationVersion: latestVersion }
+    })
+    const [, collection] = doc._key.split("!")
+    await migrate(doc, collection)
+    if (deleted.has(doc)) return "deleted"
+
+    // Remove the embedded Documents deleted by a migration from their parent.
+    const record = doc as unknown as Record<string, unknown>
+    walkHierarchy(record, getPrimaryContext(record), (d, ctx) => {
+      for (const [embeddedCollectionName, type] of Object.entries(HIERARCHY[ctx.collection] ?? {})) {
+        const embeddedValue = d[embeddedCollectionName]
+        if (Array.isArray(type) && Array.isArray(embeddedValue)) {
+          d[embeddedCollectionName] = embeddedValue.filter((embeddedDoc) => !deleted.has(embeddedDoc))
+        } else if (embeddedValue && deleted.has(embeddedValue)) d[embeddedCollectionName] = null
+      }
+    })
+    return JSON.stringify(doc) === before ? "unchanged" : "migrated"
+  }
+}
+
+/* -------------------------------------------- */
+/*  Types                                       */
+/* -------------------------------------------- */
+
+/**
+ * A migration of a Document or an embedded Document, returning the migrated Document, modified in place or not, or
+ * false to delete it.
+ */
+export type Migration = (doc: Document, collection: string) => Document | false | Promise<Document | false>
+
+/** The migrations by version, applied in ascending order. */
+export type Migrations = Record<number, Migration>
+
+interface MigrateOptions {
+  /** The flags scope in which the migration version is recorded, e.g. the package ID. */
+  namespace: string
+  /** Whether to only report the changes, without writing anything. */
+  dryRun?: boolean
+  /** Whether to log operation progress to the console. */
+  log?: boolean
+}
+
+export type MigrateSourcesOptions = MigrateOptions & Partial<Pick<CompileOptions, "yaml" | "recursive">>
+
+export type MigratePackOptions = MigrateOptions & Partial<Pick<ExtractOptions, "nedb" | "documentType" | "collection">>
+
+/** The primary Documents migrated, deleted and left unchanged by a migration. */
+export interface MigrationReport {
+  /** The source files or pack keys of the Documents which were migrated. */
+  migrated: string[]
+  /** The source files or pack keys of the Documents which were deleted by a migration. */
+  deleted: string[]
+  /** The source files or pack keys of the Documents which were already migrated. */
+  unchanged: string[]
+}
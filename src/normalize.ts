@@ -0,0 +1,126 @@
+import path from "node:path"
+import { randomInt } from "node:crypto"
+import pc from "picocolors"
+import {
+  findSourceFiles,
+  getPrimaryContext,
+  readSourceFiles,
+  serializeDocument,
+  TYPE_COLLECTION_MAP,
+  walkHierarchy,
+} from "./database"
+import type { DocumentType, SourceEntry } from "./database"
+
+/* -------------------------------------------- */
+/*  Normalizing                                 */
+/* -------------------------------------------- */
+
+/**
+ * Generate the missing `_id` and `_key` of hand-authored source files and of their embedded documents.
+ * @param src  The directory containing the source files.
+ * @param [options]
+ * @param options.documentType The type of Document stored in the pack, used to derive the missing `_key`s.
+ * @param options.yaml         Whether the source files are in YAML format, otherwise JSON is assumed.
+ * @param options.recursive    Whether to recurse into child directories to locate source files.
+ * @param options.write        Whether to write the normalized documents back to their source files.
+ * @param options.log          Whether to log operation progress to the console.
+ * @returns The source files which were normalized.
+ */
+export async function normalizeSources(
+  src: string,
+  { documentType, yaml = false, recursive = false, write = false, log = false }: Partial<NormalizeOptions> = {},
+): Promise<string[]> {
+  const files = findSourceFiles(src, { yaml, recursive })
+  const normalizedFiles: string[] = []
+  for await (const { source, normalized } of normalizeEntries(readSourceFiles(files, { log }), {
+    documentType,
+    write,
+    log,
+  })) {
+    if (normalized) normalizedFiles.push(source)
+  }
+  return normalizedFiles
+}
+
+/**
+ * Normalize a set of source entries on the fly.
+ * @param entries The source entries.
+ * @param [options]
+ * @returns The normalized entries, flagged when something was generated.
+ */
+export async function* normalizeEntries(
+  entries: AsyncIterable<SourceEntry>,
+  { documentType, write = false, log = false }: Partial<Omit<NormalizeOptions, "yaml" | "recursive">> = {},
+): AsyncGenerator<SourceEntry & { normalized: boolean }> {
+  for await (const entry of entries) {
+    const normalized = normalizeDocument(entry.doc as unknown as Record<string, unknown>, documentType)
+    if (normalized && write) {
+      const ext = path.extname(entry.source)
+      // Documents written with the "directory" layout are read from their Document file.
+      const layout = path.basename(entry.source, ext) === "_Document" ? "directory" : "document"
+      serializeDocument(entry.doc, entry.source, { yaml: ext === ".yml" || ext === ".yaml", layout })
+    }
+    if (normalized && log) console.log(`Normalized ${pc.blue(entry.source)}`)
+    yield { ...entry, normalized }
+  }
+}
+
+/**
+ * Generate the missing `_id` and `_key` of a primary source document, and the `_key` of its embedded documents.
+ * @param doc          The primary source document, modified in place.
+ * @param documentType The type of Document, used to derive the missing `_key`.
+ * @returns Whether anything was generated.
+ */
+function normalizeDocument(doc: Record<string, unknown>, documentType?: DocumentType): boolean {
+  const before = JSON.stringify(doc)
+
+  if (typeof doc._key !== "string") {
+    if (!documentType) throw new Error("The _key is missing and no documentType was provided to derive it.")
+    doc._id ??= randomID()
+    doc._key = `!${TYPE_COLLECTION_MAP[documentType]}!${doc._id}`
+  } else if (!doc._id) {
+    // Keys of hand-authored documents may lack their ID, e.g. "!items!".
+    const [, collection, id] = doc._key.split("!")
+    doc._id = id || randomID()
+    doc._key = `!${collection}!${doc._id}`
+  }
+
+  walkHierarchy(doc, getPrimaryContext(doc), (d, ctx) => {
+    if (ctx.primary) return
+    if (!d._id) {
+      // The context was built before the ID was generated, update it for the documents embedded below this one.
+      d._id = randomID()
+      ctx.idPath = ctx.idPath.replace(/[^.]*$/, d._id as string)
+    }
+    d._key = `!${ctx.sublevel}!${ctx.idPath}`
+  })
+
+  return JSON.stringify(doc) !== before
+}
+
+/**
+ * Generate a random ID the way Foundry VTT does.
+ * @param length The length of the ID.
+ * @returns The alphanumeric ID.
+ */
+function randomID(length = 16): string {
+  const chars = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789"
+  return Array.from({ length }, () => chars[randomInt(chars.length)]).join("")
+}
+
+/* -------------------------------------------- */
+/*  Types                                       */
+/* -------------------------------------------- */
+
+export interface NormalizeOptions {
+  /** The type of Document stored in the pack, used to derive the missing `_key`s. */
+  documentType: DocumentType
+  /** Whether the source files are in YAML format, otherwise JSON is assumed. */
+  yaml: boolean
+  /** Whether to recurse into child directories to locate source files. */
+  recursive: boolean
+  /** Whether to write the normalized documents back to their source files. */
+  write: boolean
+  /** Whether to log operation progress to the console. */
+  log: boolean
+}
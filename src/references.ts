@@ -0,0 +1,131 @@
+import * as fse from "fs-extra"
+import path from "node:path"
+import { findSourceFiles, getPrimaryContext, inlineSidecars, readSourceFiles, walkHierarchy } from "./database"
+import type { SourceEntry } from "./database"
+import { getFoundryManifest, getFoundryPacks } from "./utils"
+
+/**
+ * Check the cross-document references of the source files of every compendium pack of a Foundry VTT package:
+ * `@UUID[Compendium...]` links to the package's own packs, `folder` parents and folders containing nothing.
+ * @param rootPath The directory path to the root of the Foundry VTT package.
+ * @param [options]
+ * @param options.sourcePath The directory containing one source directory per pack, relative to the package root.
+ * @param options.yaml       Whether the source files are in YAML format, otherwise JSON is assumed.
+ * @param options.recursive  Whether to recurse into child directories to locate source files.
+ * @returns The issues found.
+ */
+export async function checkReferences(
+  rootPath = ".",
+  { sourcePath = "packs/_source", yaml = false, recursive = false }: Partial<CheckReferencesOptions> = {},
+): Promise<ReferenceIssue[]> {
+  const { id: packageId } = await getFoundryManifest(rootPath)
+  const packs = await getFoundryPacks(rootPath)
+
+  // Build up the index of every document of every pack.
+  const indexes = new Map<string, PackIndex>()
+  for (const pack of packs) {
+    const index: PackIndex = { entries: [], documents: new Map(), folders: new Map() }
+    indexes.set(pack.name, index)
+    const src = path.resolve(rootPath, sourcePath, pack.name)
+    if (!(await fse.pathExists(src))) continue
+    for await (const entry of inlineSidecars(readSourceFiles(findSourceFiles(src, { yaml, recursive })))) {
+      index.entries.push(entry)
+      const doc = entry.doc as unknown as Record<string, unknown>
+      const ctx = getPrimaryContext(doc)
+      if (ctx.collection === "folders") {
+        index.folders.set(doc._id as string, { source: entry.source, key: doc._key as string, used: false })
+        continue
+      }
+      const embeddedIds = new Set<string>()
+      walkHierarchy(doc, ctx, (_, { idPath, primary }) => {
+        if (!primary) embeddedIds.add(idPath.slice(ctx.idPath.length + 1))
+      })
+      index.documents.set(doc._id as string, embeddedIds)
+    }
+  }
+
+  const issues: ReferenceIssue[] = []
+  for (const [packName, index] of indexes) {
+    for (const { source, doc } of index.entries) {
+      const { _key: key, folder } = doc
+
+      // Check the folder parent, and mark it as containing something.
+      if (typeof folder === "string" && folder) {
+        const parent = index.folders.get(folder)
+        if (parent) parent.used = true
+        else issues.push({ type: "unknown-folder", pack: packName, source, key, target: folder })
+      }
+
+      // Check the links to the documents of the package's packs.
+      for (const uuid of findCompendiumLinks(doc)) {
+        const [, linkedPackageId, linkedPackName, ...parts] = uuid.split("#")[0].split(".")
+        if (linkedPackageId !== packageId) continue
+        const linkedIndex = indexes.get(linkedPackName)
+        // Folders are not indexed along with the documents, and contain no embedded documents.
+        if (parts[0] === "Folder" && parts.length === 2) {
+          if (!linkedIndex?.folders.has(parts[1])) {
+            issues.push({ type: "dangling-link", pack: packName, source, key, target: uuid })
+          }
+          continue
+        }
+        // Links without a document type are the legacy `Compendium.<pkg>.<pack>.<id>` form.
+        const [id, ...embeddedParts] = parts.length === 1 ? parts : parts.slice(1)
+        const embeddedIdPath = embeddedParts.filter((_, i) => i % 2 === 1).join(".")
+        const embeddedIds = linkedIndex?.documents.get(id)
+        if (!embeddedIds || (embeddedIdPath && !embeddedIds.has(embeddedIdPath))) {
+          issues.push({ type: "dangling-link", pack: packName, source, key, target: uuid })
+        }
+      }
+    }
+
+    for (const [id, { source, key, used }] of index.folders) {
+      if (!used) issues.push({ type: "orphaned-folder", pack: packName, source, key, target: id })
+    }
+  }
+  return issues
+}
+
+/**
+ * Find every `@UUID[Compendium...]` link within the string values of a document.
+ * @param value The document or any of its values.
+ * @returns The linked UUIDs.
+ */
+function findCompendiumLinks(value: unknown): string[] {
+  if (typeof value === "string") return [...value.matchAll(/@UUID\[(Compendium\.[^\]]+)\]/g)].map((match) => match[1])
+  if (value && typeof value === "object") return Object.values(value).flatMap(findCompendiumLinks)
+  return []
+}
+
+/** An issue found while checking the cross-document references of compendium sources. */
+export interface ReferenceIssue {
+  /**
+   * The kind of issue: a link to a document which does not exist, a `folder` which does not exist in the pack, or a
+   * folder containing neither documents nor folders.
+   */
+  type: "dangling-link" | "unknown-folder" | "orphaned-folder"
+  /** The name of the pack containing the faulty document. */
+  pack: string
+  /** The source file of the faulty document. */
+  source: string
+  /** The `_key` of the faulty document. */
+  key?: string
+  /** The UUID of the link or the ID of the folder. */
+  target: string
+}
+
+export interface CheckReferencesOptions {
+  /** The directory containing one source directory per pack, relative to the package root. */
+  sourcePath: string
+  /** Whether the source files are in YAML format, otherwise JSON is assumed. */
+  yaml: boolean
+  /** Whether to recurse into child directories to locate source files. */
+  recursive: boolean
+}
+
+/** The documents of a pack, indexed by ID. */
+interface PackIndex {
+  entries: SourceEntry[]
+  /** The embedded ID paths of each primary document. */
+  documents: Map<string, Set<string>>
+  folders: Map<string, { source: string; key: string; used: boolean }>
+}
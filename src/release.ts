@@ -0,0 +1,181 @@
+import * as fse from "fs-extra"
+import path from "node:path"
+import pc from "picocolors"
+import { getFoundryManifestPath, readPackageJson } from "./_utils"
+import { writeZip } from "./_zip"
+import { compilePack } from "./database"
+import type { CompileOptions } from "./database"
+import { getFoundryManifest, getFoundryPackageInfo, getFoundryPacks } from "./utils"
+import type { FoundryManifest } from "./utils"
+
+/* -------------------------------------------- */
+/*  Packaging                                   */
+/* -------------------------------------------- */
+
+/**
+ * Package a release of a Foundry VTT package, without any network access: compile every pack from its sources,
+ * rewrite the version of the manifest and its URLs from `package.json`, and write the archive of the package files
+ * along with a standalone copy of the manifest into the output directory.
+ * The URLs follow the layout of GitHub releases: the manifest URL points to the manifest of the latest release, and
+ * the download URL to the archive of this version, tagged `v<version>`.
+ * @param rootPath The directory path to the root of the Foundry VTT package.
+ * @param [options]
+ * @param options.outDir     The directory to write the release into, relative to the package root.
+ * @param options.repoUrl    The URL of the repository, otherwise the `repository` of `package.json`.
+ * @param options.sourcePath The directory containing one source directory per pack, relative to the package root.
+ * @param options.include    The glob patterns of the files to include, relative to the manifest directory.
+ * @param options.exclude    The glob patterns of the files to exclude, relative to the manifest directory.
+ * @param options.log        Whether to log operation progress to the console.
+ * @returns The release.
+ */
+export async function packageRelease(
+  rootPath = ".",
+  {
+    outDir = "release",
+    repoUrl,
+    sourcePath = "packs/_source",
+    include = ["**"],
+    exclude = [],
+    log = false,
+    ...options
+  }: Partial<PackageReleaseOptions> = {},
+): Promise<PackageRelease> {
+  const packageInfo = await getFoundryPackageInfo(rootPath)
+  const packageJson = await readPackageJson(rootPath)
+  const version = packageJson.version as string | undefined
+  if (!version) throw new Error("No version set in package.json.")
+
+  // Compile the packs which have sources, the others are released as they are.
+  for (const pack of await getFoundryPacks(rootPath)) {
+    const src = path.resolve(rootPath, sourcePath, pack.name)
+    if (!(await fse.pathExists(src))) continue
+    await compilePack(src, pack.resolvedPath, { ...options, nedb: pack.nedb, documentType: pack.type })
+    if (log) console.log(`Compiled pack ${pc.blue(pack.name)}`)
+  }
+
+  repoUrl = (repoUrl ?? getRepositoryUrl(packageJson))?.replace(/\/+$/, "")
+  const manifest: FoundryManifest = { ...(await getFoundryManifest(rootPath)), version }
+  // The manifest is always released as JSON, even if it is written in YAML.
+  const manifestName = `${packageInfo.type}.json`
+  if (repoUrl) {
+    manifest.url ??= repoUrl
+    manifest.manifest = `${repoUrl}/releases/latest/download/${manifestName}`
+    manifest.download = `${repoUrl}/releases/download/v${version}/${packageInfo.id}.zip`
+  }
+
+  const manifestPath = await getFoundryManifestPath(rootPath)
+  const packageDir = path.dirname(manifestPath)
+  const releaseDir = path.resolve(rootPath, outDir)
+  const includePatterns = include.map(globToRegExp)
+  const excludePatterns = [
+    ...DEFAULT_EXCLUDE,
+    path.relative(packageDir, path.resolve(rootPath, sourcePath)).split(path.sep).join("/") + "/**",
+    ...exclude,
+  ].map(globToRegExp)
+  const files = findFiles(packageDir, [releaseDir, manifestPath]).filter(
+    (file) => includePatterns.some((re) => re.test(file)) && !excludePatterns.some((re) => re.test(file)),
+  )
+
+  // The rewritten manifest replaces the original one in the archive.
+  const releaseManifestPath = path.join(releaseDir, manifestName)
+  await fse.outputJSON(releaseManifestPath, manifest, { spaces: 2 })
+  const zipPath = path.join(releaseDir, `${packageInfo.id}.zip`)
+  await writeZip(zipPath, [
+    { name: manifestName, source: releaseManifestPath },
+    ...files.map((file) => ({ name: file, source: path.join(packageDir, file) })),
+  ])
+  if (log) console.log(`Packaged ${pc.blue(packageInfo.id)} ${version} with ${files.length + 1} files into ${zipPath}`)
+
+  return { manifest, manifestPath: releaseManifestPath, zipPath, files }
+}
+
+/**
+ * Get the URL of the repository declared in `package.json`, as a web URL.
+ * @param packageJson The content of `package.json`.
+ * @returns The URL, if any.
+ */
+function getRepositoryUrl(packageJson: Record<string, unknown>): string | undefined {
+  const { repository } = packageJson as { repository?: string | { url?: string } }
+  const url = typeof repository === "string" ? repository : repository?.url
+  if (!url) return undefined
+  // Shorthands such as "github:user/repo" or "user/repo" refer to GitHub.
+  const shorthand = url.match(/^(?:github:)?([\w.-]+\/[\w.-]+)$/)
+  if (shorthand) return `https://github.com/${shorthand[1].replace(/\.git$/, "")}`
+  return url
+    .replace(/^git\+/, "")
+    .replace(/^git@([^:]+):/, "https://$1/")
+    .replace(/\.git$/, "")
+}
+
+/**
+ * Find the files of a directory, recursively.
+ * @param root   The directory.
+ * @param ignore The absolute paths of the files and directories to skip.
+ * @param [prefix] The subdirectory being searched, relative to the directory.
+ * @returns The files, relative to the directory, using forward slashes.
+ */
+function findFiles(root: string, ignore: string[], prefix = ""): string[] {
+  return fse.readdirSync(path.join(root, prefix), { withFileTypes: true }).flatMap((entry) => {
+    const name = path.posix.join(prefix, entry.name)
+    if (ignore.includes(path.join(root, name))) return []
+    if (entry.isDirectory()) return findFiles(root, ignore, name)
+    return entry.isFile() ? [name] : []
+  })
+}
+
+/**
+ * Convert a glob pattern into a regular expression: `**` matches any number of directories, `*` anything but a
+ * slash, and `?` a single character other than a slash.
+ * @param glob The glob pattern.
+ * @returns The regular expression.
+ */
+function globToRegExp(glob: string): RegExp {
+  let source = ""
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]
+    if (char === "*" && glob[i + 1] === "*") {
+      // A "**/" segment also matches no directory at all.
+      source += glob[i + 2] === "/" ? "(?:.*/)?" : ".*"
+      i += glob[i + 2] === "/" ? 2 : 1
+    } else if (char === "*") source += "[^/]*"
+    else if (char === "?") source += "[^/]"
+    else source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&")
+  }
+  return new RegExp(`^${source}$`)
+}
+
+/* -------------------------------------------- */
+/*  Types                                       */
+/* -------------------------------------------- */
+
+export type PackageReleaseOptions = {
+  /** The directory to write the release into, relative to the package root. */
+  outDir: string
+  /** The URL of the repository, otherwise the `repository` of `package.json`. */
+  repoUrl: string
+  /** The directory containing one source directory per pack, relative to the package root. */
+  sourcePath: string
+  /** The glob patterns of the files to include, relative to the manifest directory. */
+  include: string[]
+  /** The glob patterns of the files to exclude, relative to the manifest directory. */
+  exclude: string[]
+} & Omit<CompileOptions, "nedb" | "documentType" | "dryRun">
+
+/** A packaged release. */
+export interface PackageRelease {
+  /** The rewritten manifest. */
+  manifest: FoundryManifest
+  /** The path of the standalone manifest. */
+  manifestPath: string
+  /** The path of the archive. */
+  zipPath: string
+  /** The package files in the archive besides the manifest, relative to the manifest directory. */
+  files: string[]
+}
+
+/* -------------------------------------------- */
+/*  Constants                                   */
+/* -------------------------------------------- */
+
+/** The files never released: VCS and dependency directories, hidden files, and the runtime files of LevelDB packs. */
+const DEFAULT_EXCLUDE = [".git/**", "node_modules/**", "**/.*", "**/.*/**", "**/LOCK", "**/LOG", "**/LOG.old"]
@@ -1,9 +1,20 @@
 import dotenv from "dotenv"
 import * as fse from "fs-extra"
-import * as YAML from "js-yaml"
+import type { ChildProcess } from "node:child_process"
 import path from "node:path"
-import { launchFoundryPrivate } from "./_launch"
-import { getFoundryConfigPath, getFoundryPackageType, readPackageJson } from "./_utils"
+import type { Readable } from "node:stream"
+import { assertPortAvailable, createTemporaryDataPath, launchFoundryPrivate } from "./_launch"
+import {
+  compareFoundryVersions,
+  expandPath,
+  formatPathReport,
+  getFoundryManifestPath,
+  getFoundryPackageType,
+  readFoundryConfig,
+  readFoundryManifest,
+  readPackageJson,
+} from "./_utils"
+import type { DocumentType } from "./database"
 
 /** Information about a Foundry VTT package. */
 export interface FoundryInfo {
@@ -27,12 +38,156 @@ export interface FoundryInfo {
   prefixUrl: string
 }
 
-export interface FoundryConfigInfo {
+/** A compendium pack declared in a Foundry VTT package manifest. */
+export interface FoundryPackManifest {
+  /** The pack name, unique within the package. */
+  name: string
+  /** The human-readable pack label. */
+  label: string
+  /** The path to the pack, relative to the package root. */
+  path?: string
+  /** The type of Document stored in the pack. */
+  type: DocumentType
+  /** The system the pack is restricted to. */
+  system?: string
+}
+
+/** A Foundry VTT package manifest, `system.json` or `module.json`. */
+export interface FoundryManifest {
+  id: string
+  title: string
+  version: string
+  packs?: FoundryPackManifest[]
+  [key: string]: unknown
+}
+
+/** A compendium pack declared in a Foundry VTT package manifest, with its location resolved. */
+export interface FoundryPackInfo extends FoundryPackManifest {
+  /** The path to the pack, relative to the package root. */
+  path: string
+  /** The absolute path to the pack. */
+  resolvedPath: string
+  /** Whether the pack is a NeDB `.db` file, otherwise a LevelDB directory. */
+  nedb: boolean
+}
+
+/** The Foundry VTT config, as written in the config files. */
+export interface FoundryConfig {
+  /** The Foundry VTT installations: a path, a list of paths, or named paths such as `{ "v13": "..." }`. */
+  installPath?: string | string[] | Record<string, string>
+  /** The Foundry VTT data paths, the first existing one is used. */
+  dataPath?: string | string[]
+  /** The default port to launch Foundry VTT on. */
+  port?: number
+  /** The default world to launch Foundry VTT with. */
+  world?: string
+  /** The admin key to secure Foundry VTT's Setup screen with. */
+  adminKey?: string
+  /** Whether to launch Foundry VTT in demo mode by default. */
+  demo?: boolean
+  /** Whether to disable UPnP port forwarding by default. */
+  noupnp?: boolean
+  /** Whether to disable automatic update checking by default. */
+  noupdate?: boolean
+}
+
+export interface FoundryConfigInfo extends Omit<FoundryConfig, "dataPath" | "installPath"> {
+  /** The config files and environment variables the config was merged from. */
+  configPaths: string[]
   dataPath: string[]
   installPath: string[]
   resolvedDataPath: string[]
   resolvedInstallPath: string[]
-  resolvedMainJs: string
+  /** The `main.js` of the first installation, if any installation is valid. */
+  resolvedMainJs?: string
+  /** The status of every configured data and install path. */
+  pathReport: FoundryPathStatus[]
+  /** The Foundry VTT installations found, in the order of the install paths. */
+  installations: FoundryInstallation[]
+}
+
+/** The status of a data or install path of the config. */
+export interface FoundryPathStatus {
+  kind: "data" | "install"
+  /** The name of the installation, for named install paths. */
+  name?: string
+  /** The path as configured. */
+  configured: string
+  /** The absolute path, once the environment variables and `~` are expanded. */
+  resolved: string
+  /** "ok", or why the path is unusable. */
+  status: "ok" | "missing" | "not-a-directory" | "no-main-js"
+}
+
+/** A Foundry VTT installation found in the install paths of the config. */
+export interface FoundryInstallation {
+  /** The name of the installation in the config, otherwise its version. */
+  name: string
+  /** The absolute path to the installation. */
+  path: string
+  /** The absolute path to the `main.js` of the installation. */
+  mainJs: string
+  /** The Foundry VTT version of the installation, e.g. "13.345". */
+  version: string
+}
+
+export interface LaunchFoundryOptions {
+  /** A custom data path in which data will persist for this Foundry VTT package. */
+  dataPath: string
+  /** A custom world name to create (if none) and start inside Foundry VTT. */
+  world: string
+  /** The port to launch Foundry VTT on. */
+  port: number
+  /** Launch Foundry VTT server in demo mode. */
+  demo: boolean
+  /** Disable UPnP port forwarding. */
+  noupnp: boolean
+  /** Disable automatic update checking. */
+  noupdate: boolean
+  /** The name or version of the installation to launch, otherwise the first installation is launched. */
+  version: string
+  /** Launch Foundry VTT with a throwaway data path containing the package, removed once the server exits. */
+  temporaryData: boolean | Partial<TemporaryDataOptions>
+}
+
+/** Options of the throwaway data path of `launchFoundry`. */
+export interface TemporaryDataOptions {
+  /** The directory of the package files to install, relative to the package root, e.g. the build output. */
+  packagePath: string
+  /** Whether to copy the package files instead of symlinking them. */
+  copy: boolean
+  /**
+   * The system of the seeded world, for modules. Defaults to the first system the module has a relationship with. It
+   * is linked from the first configured data path where it is installed.
+   */
+  system: string
+}
+
+/** A Foundry VTT server launched by `launchFoundry`. */
+export interface FoundryServer {
+  /** The port the server listens on. */
+  readonly port: number
+  /** The server child process, replaced on restart. */
+  readonly process: ChildProcess
+  /** A promise resolved when the server listens on its port, rejected if it exits before. */
+  readonly ready: Promise<void>
+  /** A promise resolved with the exit code of the server process. */
+  readonly exited: Promise<number | null>
+  /** The exit code of the server process, `null` while it is running or if it was killed by a signal. */
+  readonly exitCode: number | null
+  /** The stdout and stderr output of the server, across restarts. */
+  readonly log: Readable
+  /**
+   * Stop the server, killing it if it does not shut down in time.
+   * @param timeout The delay in milliseconds before killing the server.
+   * @returns The exit code of the server process.
+   */
+  stop(timeout?: number): Promise<number | null>
+  /**
+   * Restart the server with the same options.
+   * @returns A promise resolved when the restarted server is ready.
+   */
+  restart(): Promise<void>
 }
 
 /**
@@ -58,74 +213,111 @@ export async function getFoundryPackageInfo(
 }
 
 /**
- * Get Foundry VTT config information stored in `foundry.{json|yaml|yml}` or `foundry.<OS>.{json|yaml|yml}`.
+ * Get the Foundry VTT package manifest located by `getFoundryPackageType`.
+ * @param rootPath The directory path to the root of the Foundry VTT package.
+ * @returns Foundry VTT package manifest.
+ */
+export async function getFoundryManifest(rootPath = "."): Promise<FoundryManifest> {
+  return (await readFoundryManifest(rootPath)) as FoundryManifest
+}
+
+/**
+ * Get the compendium packs declared in the Foundry VTT package manifest.
+ * Pack paths are resolved relative to the directory containing the manifest.
+ * @param rootPath The directory path to the root of the Foundry VTT package.
+ * @returns Foundry VTT compendium packs information.
+ */
+export async function getFoundryPacks(rootPath = "."): Promise<FoundryPackInfo[]> {
+  const manifestDir = path.dirname(await getFoundryManifestPath(rootPath))
+  const manifest = await getFoundryManifest(rootPath)
+  return (manifest.packs ?? []).map((pack) => {
+    const packPath = pack.path ?? `packs/${pack.name}`
+    return {
+      ...pack,
+      path: packPath,
+      resolvedPath: path.resolve(manifestDir, packPath),
+      nedb: path.extname(packPath) === ".db",
+    }
+  })
+}
+
+/**
+ * Get Foundry VTT config information, merged from `foundryconfig.{json|yaml|yml}`,
+ * `foundryconfig.<OS>.{json|yaml|yml}`, `foundryconfig.local.{json|yaml|yml}` and the `FOUNDRY_*` environment
+ * variables, in this order.
  * @param rootPath The directory path to the root of the Foundry VTT package.
  * @returns Foundry VTT configuration information.
  */
 export async function getFoundryConfigInfo(rootPath = "."): Promise<FoundryConfigInfo | undefined> {
-  const foundryConfigPath = await getFoundryConfigPath(rootPath)
-  if (!foundryConfigPath) return undefined
-
-  const foundryConfig =
-    path.extname(foundryConfigPath) == ".json"
-      ? await fse.readJSON(foundryConfigPath)
-      : YAML.load(await fse.readFile(foundryConfigPath, "utf-8"), {
-          json: true,
-          filename: foundryConfigPath,
-        })
-
-  let dataPaths = foundryConfig.dataPath ?? []
-  if (!Array.isArray(dataPaths)) dataPaths = [dataPaths]
-  foundryConfig.dataPath = dataPaths
-  foundryConfig.resolvedDataPath = resolvePath(dataPaths)
-
-  let installPaths = foundryConfig.installPath ?? []
-  if (!Array.isArray(installPaths)) installPaths = [installPaths]
-  const resolvedInstallPath = resolvePath(installPaths)
-  const resolvedMainJs = resolveMainJs(resolvedInstallPath)
-
-  foundryConfig.installPath = installPaths
-  foundryConfig.resolvedInstallPath = resolvedInstallPath
-  foundryConfig.resolvedMainJs = resolvedMainJs
-
-  return foundryConfig
-
-  function replaceEnvVars(input: string): string {
-    return input.replaceAll(getPattern(), (_, ...groups: string[]) => {
-      return process.env[groups[0]] || ""
-    })
-
-    function getPattern(): RegExp {
-      return process.platform === "win32" ? /%(.*)%/g : /$(.*)/g
-    }
+  // The config may refer to variables of the .env file next to it, which may also override config keys.
+  dotenv.configDotenv({ path: path.join(rootPath, ".env"), encoding: "utf-8" })
+  const { config, sources } = await readFoundryConfig(rootPath)
+  const pathReport: FoundryPathStatus[] = []
+
+  const dataPaths = [config.dataPath ?? []].flat()
+  const resolvedDataPath = dataPaths
+    .map((p) => checkPath("data", p))
+    .filter(({ status }) => status === "ok")
+    .map(({ resolved }) => resolved)
+
+  // Installations are either a list of paths, or named paths such as `{ "v12": "...", "v13": "..." }`.
+  const installPath = config.installPath ?? []
+  const namedInstallPaths: [string | undefined, string][] =
+    typeof installPath === "object" && !Array.isArray(installPath)
+      ? Object.entries(installPath)
+      : [installPath].flat().map((p) => [undefined, p])
+  const installStatuses = namedInstallPaths.map(([name, p]) => checkPath("install", p, name))
+  const resolvedInstallPath = installStatuses.filter(({ status }) => status === "ok").map(({ resolved }) => resolved)
+
+  const installations = await Promise.all(
+    installStatuses
+      .filter(({ status }) => status === "ok")
+      .map(async ({ name, resolved }) => {
+        const mainJs = findMainJs(resolved)[0]
+        // The package.json of Foundry VTT sits next to its main.js.
+        const { version } = await readPackageJson(path.dirname(mainJs))
+        return { name: name ?? (version as string), path: resolved, mainJs, version: version as string }
+      }),
+  )
+
+  return {
+    ...config,
+    configPaths: sources,
+    dataPath: dataPaths,
+    installPath: namedInstallPaths.map(([, p]) => p),
+    resolvedDataPath,
+    resolvedInstallPath,
+    resolvedMainJs: resolvedInstallPath.flatMap(findMainJs)[0],
+    installations,
+    pathReport,
   }
 
-  function resolvePath(paths: string[]): string[] {
-    return paths
-      .map((p: string) => {
-        p = replaceEnvVars(p)
-        if (!fse.statSync(path.resolve(p)).isDirectory()) {
-          return undefined
-        }
-        return path.resolve(p)
-      })
-      .filter((p) => p !== undefined)
+  function checkPath(kind: "data" | "install", configured: string, name?: string): FoundryPathStatus {
+    const resolved = path.resolve(expandPath(configured))
+    const stats = fse.statSync(resolved, { throwIfNoEntry: false })
+    const status = !stats
+      ? "missing"
+      : !stats.isDirectory()
+        ? "not-a-directory"
+        : kind === "install" && findMainJs(resolved).length === 0
+          ? "no-main-js"
+          : "ok"
+    const pathStatus: FoundryPathStatus = { kind, ...(name && { name }), configured, resolved, status }
+    pathReport.push(pathStatus)
+    return pathStatus
   }
 
-  function resolveMainJs(paths: string[]): string {
-    const candidates = paths
-      .flatMap((p) => [
-        path.normalize(path.join(p, "resources", "app", "main.js")), // before v13
-        path.normalize(path.join(p, "main.js")), // v13
-      ])
-      .filter((p) => fse.pathExistsSync(p))
-    if (candidates.length === 0) throw new Error("No main.js found in any of the installation paths.")
-    return candidates[0]
+  function findMainJs(p: string): string[] {
+    return [
+      path.normalize(path.join(p, "resources", "app", "main.js")), // before v13
+      path.normalize(path.join(p, "main.js")), // v13
+    ].filter((p) => fse.pathExistsSync(p))
   }
 }
 
 /**
  * Launch the local Foundry VTT server if configuration is set.
+ * The world, port, demo, noupnp and noupdate options default to the keys of the same name of the config.
  * @param rootPath The directory path to the root of the Foundry VTT package.
  * @param [options]
  * @param options.dataPath A custom data path in which data will persist for this Foundry VTT package.
@@ -134,49 +326,146 @@ export async function getFoundryConfigInfo(rootPath = "."): Promise<FoundryConfi
  * @param options.demo Launch Foundry VTT server in demo mode.
  * @param options.noupnp Disable UPnP port forwarding.
  * @param options.noupdate Disable automatic update checking.
+ * @param options.version The name or version of the installation to launch, e.g. "v12" or "13", otherwise the first
+ *                        installation is launched. The newest installation matching a version is used.
+ * @param options.temporaryData Launch Foundry VTT with a throwaway data path containing the package, and the world
+ *                              if any, which is removed once the server exits. Cannot be used with `dataPath`.
+ * @returns The handle of the server process, if configuration is set.
+ * @throws {Error} If the port is already in use, since the server would never become ready.
  */
 export async function launchFoundry(
   rootPath = ".",
-  {
-    dataPath,
-    world,
-    port,
-    demo,
-    noupnp,
-    noupdate,
-  }: {
-    dataPath?: string
-    world?: string
-    port?: number
-    demo?: boolean
-    noupnp?: boolean
-    noupdate?: boolean
-  } = {},
-) {
+  { dataPath, world, port, demo, noupnp, noupdate, version, temporaryData }: Partial<LaunchFoundryOptions> = {},
+): Promise<FoundryServer | undefined> {
+  if (dataPath && temporaryData) throw new Error("The dataPath and temporaryData options cannot be used together.")
   const foundryConfig = await getFoundryConfigInfo(rootPath)
   if (!foundryConfig) return
+  // The options default to the launch keys of the config.
+  world ??= foundryConfig.world
+
+  const mainJsPath = version ? findInstallation(version).mainJs : foundryConfig.resolvedMainJs
+  if (!mainJsPath) {
+    throw new Error(`No main.js found in any of the installation paths.\n${formatPathReport(foundryConfig.pathReport)}`)
+  }
+
+  port ??= foundryConfig.port ?? 30000
+  await assertPortAvailable(port)
 
-  const mainJsPath = foundryConfig.resolvedMainJs
+  let cleanup: (() => void) | undefined
+  if (temporaryData) {
+    const { packagePath = ".", copy = false, system } = temporaryData === true ? {} : temporaryData
+    const packageInfo = await getFoundryPackageInfo(rootPath)
+    let worldSystem = packageInfo.type === "system" ? packageInfo.id : system
+    if (world && !worldSystem) {
+      // Default to the first system a module declares a relationship with.
+      const { relationships } = (await getFoundryManifest(rootPath)) as {
+        relationships?: { systems?: { id: string }[] }
+      }
+      worldSystem = relationships?.systems?.[0]?.id
+      if (!worldSystem) throw new Error(`A system must be provided to seed the world '${world}' for a module.`)
+    }
+    // The system of the world is installed from the configured data paths, unless it is the package itself.
+    let systemSource: string | undefined
+    if (world && packageInfo.type !== "system") {
+      systemSource = foundryConfig.resolvedDataPath
+        .map((p) => path.join(p, "Data", "systems", worldSystem as string))
+        .find((p) => fse.existsSync(path.join(p, "system.json")))
+      if (!systemSource) {
+        throw new Error(
+          `The system '${worldSystem}' of the world '${world}' is not installed in any data path.\n` +
+            formatPathReport(foundryConfig.pathReport),
+        )
+      }
+    }
+    ;({ dataPath, cleanup } = createTemporaryDataPath(path.resolve(rootPath, packagePath), packageInfo.path, {
+      copy,
+      world: world ? { id: world, title: world, system: worldSystem as string } : undefined,
+      systemSource,
+    }))
+  }
 
   dataPath ??= (() => {
     const dataPath = foundryConfig.dataPath
     if (dataPath.length === 0) throw new Error("No data path set in Foundry VTT config file! Please add some.")
 
     const resolvedDataPath = foundryConfig.resolvedDataPath
-    if (!resolvedDataPath) throw new Error("No data path found!\nSearch for: \n - " + dataPath.join("\n - "))
+    if (resolvedDataPath.length === 0) {
+      throw new Error(`No data path found!\n${formatPathReport(foundryConfig.pathReport)}`)
+    }
 
     return resolvedDataPath[0]
   })()
 
-  dotenv.configDotenv({ path: rootPath, encoding: "utf-8" })
-  const adminKey = process.env.ADMIN_KEY
+  const adminKey = foundryConfig.adminKey ?? process.env.ADMIN_KEY
 
-  launchFoundryPrivate(mainJsPath, dataPath, {
-    demo,
-    port: port ?? 30000,
+  return launchFoundryPrivate(mainJsPath, dataPath, {
+    demo: demo ?? foundryConfig.demo,
+    port,
     world,
-    noupdate,
-    noupnp,
+    noupdate: noupdate ?? foundryConfig.noupdate,
+    noupnp: noupnp ?? foundryConfig.noupnp,
     adminKey,
+    cleanup,
   })
+
+  function findInstallation(version: string): FoundryInstallation {
+    const installations = (foundryConfig as FoundryConfigInfo).installations
+    const installation =
+      installations.find(({ name }) => name === version) ??
+      installations
+        .filter((installation) => compareFoundryVersions(installation.version, version) === 0)
+        .sort((a, b) => compareFoundryVersions(b.version, a.version))[0]
+    if (!installation) {
+      throw new Error(
+        `No Foundry VTT installation matches the version '${version}'.\nFound:\n  - ` +
+          installations.map(({ name, version }) => `${name} (${version})`).join("\n  - "),
+      )
+    }
+    return installation
+  }
+}
+
+/**
+ * Launch every installed Foundry VTT version compatible with the package, according to the minimum and maximum
+ * versions of its manifest, side by side. Each server gets its own throwaway data path, and a port incremented from
+ * the given one.
+ * @param rootPath The directory path to the root of the Foundry VTT package.
+ * @param [options] The options of `launchFoundry`, applied to every server.
+ * @returns The handles of the server processes.
+ */
+export async function launchCompatibleFoundryVersions(
+  rootPath = ".",
+  { port, temporaryData = true, ...options }: Partial<Omit<LaunchFoundryOptions, "dataPath" | "version">> = {},
+): Promise<FoundryServer[]> {
+  if (!temporaryData) throw new Error("Side by side servers need throwaway data paths, as they cannot share one.")
+  const foundryConfig = await getFoundryConfigInfo(rootPath)
+  if (!foundryConfig) return []
+  const basePort = port ?? foundryConfig.port ?? 30000
+
+  const { compatibility = {} } = (await getFoundryManifest(rootPath)) as {
+    compatibility?: { minimum?: string; maximum?: string }
+  }
+  const { minimum, maximum } = compatibility
+  const installations = foundryConfig.installations.filter(
+    ({ version }) =>
+      (!minimum || compareFoundryVersions(version, minimum) >= 0) &&
+      (!maximum || compareFoundryVersions(version, maximum) <= 0),
+  )
+  if (installations.length === 0) {
+    throw new Error(
+      `No Foundry VTT installation is compatible with the versions ${minimum ?? "*"} to ${maximum ?? "*"}.`,
+    )
+  }
+
+  const servers: FoundryServer[] = []
+  try {
+    for (const [index, { name }] of installations.entries()) {
+      const server = await launchFoundry(rootPath, { ...options, port: basePort + index, version: name, temporaryData })
+      if (server) servers.push(server)
+    }
+  } catch (err) {
+    await Promise.all(servers.map((server) => server.stop()))
+    throw err
+  }
+  return servers
 }
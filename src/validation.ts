@@ -0,0 +1,155 @@
+import pc from "picocolors"
+import { getPrimaryContext, HIERARCHY, TYPE_COLLECTION_MAP, walkHierarchy } from "./database"
+import type { HierarchyContext } from "./database"
+
+/* -------------------------------------------- */
+/*  Validating                                  */
+/* -------------------------------------------- */
+
+/**
+ * Validate a set of source documents and their embedded documents, collecting every issue before reporting them.
+ * @param entries    The source documents, along with the file they were read from.
+ * @param validators The validators to run on every document.
+ * @param [options]
+ * @param options.log Whether to log the issues to the console.
+ * @throws {PackValidationError} If any validator reported an issue.
+ */
+export function assertValidDocuments(
+  entries: { source: string; doc: object }[],
+  validators: DocumentValidator[] = defaultValidators,
+  { log = false }: { log?: boolean } = {},
+): void {
+  const issues: ValidationIssue[] = []
+  for (const { source, doc } of entries) {
+    walkHierarchy(doc as ValidatedDocument, getPrimaryContext(doc as ValidatedDocument), (d, ctx) => {
+      for (const validator of validators) {
+        for (const message of [validator(d, ctx) ?? []].flat()) {
+          issues.push({ source, key: typeof d._key === "string" ? d._key : undefined, message })
+        }
+      }
+    })
+  }
+
+  if (issues.length === 0) return
+  if (log) {
+    for (const { source, key, message } of issues) {
+      console.error(`${pc.red(source)}${key ? ` (${pc.blue(key)})` : ""}: ${message}`)
+    }
+  }
+  throw new PackValidationError(issues)
+}
+
+/* -------------------------------------------- */
+/*  Validators                                  */
+/* -------------------------------------------- */
+
+/**
+ * Check that the `_id` of a document is a 16-character alphanumeric string.
+ * @param doc The document.
+ * @returns The issues found.
+ */
+export const validateId: DocumentValidator = (doc) => {
+  if (typeof doc._id !== "string") return "The _id is missing."
+  if (!/^[a-zA-Z0-9]{16}$/.test(doc._id)) return `The _id '${doc._id}' is not a 16-character alphanumeric string.`
+}
+
+/**
+ * Check that the `_key` of a document is consistent with its collection and `_id`, and that the collection of a
+ * primary document is a known one.
+ * @param doc The document.
+ * @param ctx The validation context of the document.
+ * @returns The issues found.
+ */
+export const validateKey: DocumentValidator = (doc, ctx) => {
+  if (typeof doc._key !== "string") return "The _key is missing."
+  if (ctx.primary && !(Object.values(TYPE_COLLECTION_MAP) as string[]).includes(ctx.collection)) {
+    return `The _key '${doc._key}' does not belong to a known collection.`
+  }
+  // The ID path of a primary document is read from its _key, so its last segment is checked against the _id.
+  if (typeof doc._id === "string" && ctx.idPath.split(".").at(-1) !== doc._id) {
+    return `The _key '${doc._key}' does not match the _id '${doc._id}'.`
+  }
+  const expectedKey = `!${ctx.sublevel}!${ctx.idPath}`
+  if (doc._key !== expectedKey) return `The _key '${doc._key}' does not match the expected '${expectedKey}'.`
+}
+
+/**
+ * Check that a primary document has a name, except for the Documents which do not have one.
+ * @param doc The document.
+ * @param ctx The validation context of the document.
+ * @returns The issues found.
+ */
+export const validateName: DocumentValidator = (doc, ctx) => {
+  if (!ctx.primary || UNNAMED_COLLECTIONS.includes(ctx.collection)) return
+  if (typeof doc.name !== "string" || doc.name.trim() === "") return "The name is missing."
+}
+
+/**
+ * Check that the embedded collections of a document match the Document hierarchy: arrays for embedded collections,
+ * objects for embedded documents.
+ * @param doc The document.
+ * @param ctx The validation context of the document.
+ * @returns The issues found.
+ */
+export const validateHierarchy: DocumentValidator = (doc, ctx) => {
+  const issues: string[] = []
+  for (const [embeddedCollectionName, type] of Object.entries(HIERARCHY[ctx.collection] ?? {})) {
+    const embeddedValue = doc[embeddedCollectionName]
+    if (embeddedValue === undefined || embeddedValue === null) continue
+    if (Array.isArray(type)) {
+      if (!Array.isArray(embeddedValue))
+        issues.push(`The embedded collection '${embeddedCollectionName}' is not an array.`)
+    } else if (typeof embeddedValue !== "object" || Array.isArray(embeddedValue)) {
+      issues.push(`The embedded document '${embeddedCollectionName}' is not an object.`)
+    }
+  }
+  return issues
+}
+
+/** The validators used when validation is enabled without explicit validators. */
+export const defaultValidators: DocumentValidator[] = [validateId, validateKey, validateName, validateHierarchy]
+
+/* -------------------------------------------- */
+/*  Types                                       */
+/* -------------------------------------------- */
+
+/** An error reporting all the issues found while validating source documents. */
+export class PackValidationError extends Error {
+  constructor(readonly issues: ValidationIssue[]) {
+    super(
+      `${issues.length} validation issue(s) found:\n` +
+        issues.map(({ source, key, message }) => `  - ${source}${key ? ` (${key})` : ""}: ${message}`).join("\n"),
+    )
+    this.name = "PackValidationError"
+  }
+}
+
+/** An issue found while validating a source document. */
+export interface ValidationIssue {
+  /** The file the document was read from. */
+  source: string
+  /** The `_key` of the (embedded) document, if any. */
+  key?: string
+  /** The description of the issue. */
+  message: string
+}
+
+/** Where a validated document stands in the Document hierarchy. */
+export type ValidationContext = HierarchyContext
+
+/** A document being validated, as read from a source file. */
+export type ValidatedDocument = Record<string, unknown>
+
+/**
+ * @param doc The document being validated.
+ * @param ctx Where the document stands in the Document hierarchy.
+ * @returns The issues found, if any.
+ */
+export type DocumentValidator = (doc: ValidatedDocument, ctx: ValidationContext) => string | string[] | void
+
+/* -------------------------------------------- */
+/*  Constants                                   */
+/* -------------------------------------------- */
+
+/** The collections of primary Documents which do not have a name. */
+const UNNAMED_COLLECTIONS = ["fog", "messages", "settings"]
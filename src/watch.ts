@@ -0,0 +1,126 @@
+import * as fse from "fs-extra"
+import { watch } from "node:fs"
+import path from "node:path"
+import pc from "picocolors"
+import { compilePack } from "./database"
+import type { CompileOptions } from "./database"
+import { getFoundryPacks } from "./utils"
+import type { FoundryPackInfo } from "./utils"
+
+/**
+ * Watch the source files of the compendium packs declared in the Foundry VTT package manifest, and recompile a pack
+ * whenever its sources change. Changes are debounced per pack, and only the affected pack is recompiled. A failed
+ * compilation, e.g. because a source file is temporarily invalid or the pack is locked by a running Foundry VTT server,
+ * is reported without stopping the watcher, and is retried on the next change.
+ * @param rootPath The directory path to the root of the Foundry VTT package.
+ * @param [options]
+ * @param options.sourcePath The directory containing one source directory per pack, relative to the package root.
+ * @param options.packs      The names of the packs to watch, otherwise all packs are watched.
+ * @param options.debounce   The delay in milliseconds without changes before a pack is recompiled.
+ * @returns The watcher.
+ */
+export async function watchPacks(
+  rootPath = ".",
+  { sourcePath = "packs/_source", packs: names, debounce = 300, ...options }: Partial<WatchPacksOptions> = {},
+): Promise<PacksWatcher> {
+  const packs = (await getFoundryPacks(rootPath)).filter((pack) => !names || names.includes(pack.name))
+  const unknownNames = names?.filter((name) => !packs.some((pack) => pack.name === name)) ?? []
+  if (unknownNames.length > 0) throw new Error(`Unknown packs: ${unknownNames.join(", ")}`)
+
+  const root = path.resolve(rootPath, sourcePath)
+  if (!(await fse.pathExists(root))) throw new Error(`The source directory ${root} does not exist.`)
+
+  const states = new Map<string, WatchedPack>(packs.map((pack) => [pack.name, { pack }]))
+
+  const compile = async (pack: FoundryPackInfo) => {
+    const src = path.join(root, pack.name)
+    try {
+      const { added, modified, removed } = await compilePack(src, pack.resolvedPath, {
+        ...options,
+        nedb: pack.nedb,
+        documentType: pack.type,
+      })
+      console.log(
+        `Compiled pack ${pc.blue(pack.name)}: ${added.length} added, ${modified.length} modified, ` +
+          `${removed.length} removed`,
+      )
+    } catch (error) {
+      console.error(`Failed to compile pack ${pc.red(pack.name)}: ${error instanceof Error ? error.message : error}`)
+    }
+  }
+
+  const run = async (state: WatchedPack) => {
+    // The changes made during a running compilation of the same pack are compiled afterwards.
+    if (state.running) {
+      state.pending = true
+      return
+    }
+    do {
+      state.pending = false
+      state.running = compile(state.pack)
+      await state.running
+    } while (state.pending)
+    state.running = undefined
+  }
+
+  const schedule = (state: WatchedPack) => {
+    clearTimeout(state.timer)
+    state.timer = setTimeout(() => {
+      state.timer = undefined
+      run(state)
+    }, debounce)
+  }
+
+  // Recursive watching is only supported on Linux since Node.js 19.1, hence the engines of package.json.
+  const watcher = watch(root, { recursive: true }, (_, filename) => {
+    if (!filename) return
+    const [packName, ...parts] = filename.split(path.sep)
+    const basename = parts.at(-1) ?? ""
+    // Ignore the hidden and temporary files written by editors.
+    if (basename.startsWith(".") || basename.endsWith("~")) return
+    const state = states.get(packName)
+    if (state) schedule(state)
+  })
+  console.log(`Watching ${packs.length} packs in ${pc.blue(root)}`)
+
+  return {
+    close: async () => {
+      watcher.close()
+      for (const state of states.values()) {
+        clearTimeout(state.timer)
+        state.pending = false
+      }
+      await Promise.all([...states.values()].map((state) => state.running))
+    },
+  }
+}
+
+/* -------------------------------------------- */
+/*  Types                                       */
+/* -------------------------------------------- */
+
+export type WatchPacksOptions = {
+  /** The directory containing one source directory per pack, relative to the package root. */
+  sourcePath: string
+  /** The names of the packs to watch, otherwise all packs declared in the manifest are watched. */
+  packs: string[]
+  /** The delay in milliseconds without changes before a pack is recompiled. */
+  debounce: number
+} & Omit<CompileOptions, "nedb" | "documentType" | "dryRun">
+
+/** A running watcher of compendium pack sources. */
+export interface PacksWatcher {
+  /** Stop watching, waiting for the running compilations to finish. */
+  close(): Promise<void>
+}
+
+/** The state of a watched pack. */
+interface WatchedPack {
+  pack: FoundryPackInfo
+  /** The pending debounced compilation. */
+  timer?: NodeJS.Timeout
+  /** The running compilation. */
+  running?: Promise<void>
+  /** Whether sources changed during the running compilation. */
+  pending?: boolean
+}
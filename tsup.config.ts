@@ -3,7 +3,7 @@ import { Options } from "tsup"
 export default {
   splitting: false,
   clean: true,
-  entryPoints: ["src/index.ts"],
+  entryPoints: ["src/index.ts", "src/cli.ts"],
   format: ["cjs"],
   dts: true,
 } as Options